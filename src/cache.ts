@@ -0,0 +1,115 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { buildSchema, GraphQLSchema, printSchema } from "graphql";
+import loadHasuraSchema, {
+  isRemoteSource,
+  SchemaSourceOptions,
+} from "./loader";
+
+export type SchemaCacheOptions = SchemaSourceOptions & {
+  cachePath?: string;
+  // use the cached schema instead of introspecting the endpoint
+  offline?: boolean;
+};
+
+type SchemaCache = {
+  url: string;
+  role: string;
+  hash: string;
+  updatedAt: string;
+  sdl: string;
+};
+
+export type CachedSchemaResult = {
+  schema: GraphQLSchema;
+  // the previous cached schema if the refreshed schema is changed
+  previousSchema: GraphQLSchema | null;
+};
+
+const DEFAULT_CACHE_PATH = "node_modules/.cache/hasura-codegen-operations";
+
+const hash = (value: string): string =>
+  createHash("sha256").update(value).digest("hex");
+
+// the cache is keyed by the fetched source, either the schema or the url option
+const getCacheFilePath = (
+  source: string,
+  options: SchemaCacheOptions,
+): string =>
+  path.resolve(
+    options.cachePath ?? DEFAULT_CACHE_PATH,
+    `${hash(`${source}\n${options.role}`).slice(0, 16)}.json`,
+  );
+
+const readSchemaCache = (filePath: string): SchemaCache | null =>
+  existsSync(filePath)
+    ? (JSON.parse(readFileSync(filePath, "utf-8")) as SchemaCache)
+    : null;
+
+/**
+ * load the schema of the endpoint and role, and cache it locally.
+ * Local schema files aren't cached
+ */
+export const loadCachedSchema = async (
+  options: SchemaCacheOptions,
+): Promise<CachedSchemaResult> => {
+  const source = options.schema ?? options.url;
+  if (!isRemoteSource(source)) {
+    return { schema: await loadHasuraSchema(options), previousSchema: null };
+  }
+
+  const cacheFilePath = getCacheFilePath(source, options);
+  const cache = readSchemaCache(cacheFilePath);
+
+  if (options.offline) {
+    if (!cache) {
+      throw new Error(
+        `the schema cache of ${source} with role ${options.role} is not found, please run without --offline first`,
+      );
+    }
+    console.log(
+      `using the cached schema of role ${options.role} at ${cache.updatedAt}`,
+    );
+    return { schema: buildSchema(cache.sdl), previousSchema: null };
+  }
+
+  let schema: GraphQLSchema;
+  try {
+    schema = await loadHasuraSchema(options);
+  } catch (err) {
+    // fall back to the cached schema if the endpoint can't be introspected
+    if (!cache) {
+      throw err;
+    }
+    console.warn(
+      `WARNING: failed to introspect the schema of role ${options.role}, using the cached schema at ${cache.updatedAt}: ${(err as Error).message}`,
+    );
+    return { schema: buildSchema(cache.sdl), previousSchema: null };
+  }
+  const sdl = printSchema(schema);
+  const sdlHash = hash(sdl);
+
+  mkdirSync(path.dirname(cacheFilePath), { recursive: true });
+  writeFileSync(
+    cacheFilePath,
+    JSON.stringify(
+      {
+        url: source,
+        role: options.role,
+        hash: sdlHash,
+        updatedAt: new Date().toISOString(),
+        sdl,
+      } satisfies SchemaCache,
+      null,
+      2,
+    ),
+    "utf8",
+  );
+
+  return {
+    schema,
+    previousSchema:
+      cache && cache.hash !== sdlHash ? buildSchema(cache.sdl) : null,
+  };
+};
@@ -0,0 +1,398 @@
+#!/usr/bin/env node
+
+import yargs from "yargs/yargs";
+import { hideBin } from "yargs/helpers";
+import { config as dotenvConfig } from "dotenv";
+import { camel, mapValues, omit, shake } from "radash";
+import generate, { getErrorMessage } from "./generate";
+import watch from "./watch";
+import {
+  GenerateTarget,
+  readConfigFile,
+  resolveConfigFile,
+  resolveTargets,
+} from "./config";
+import startPrompt, {
+  ACTIONS,
+  GenerateOptions,
+  parseArrayString,
+  resolveOptions,
+} from "./prompt";
+import { TYPESCRIPT_HOOKS } from "./documents";
+import { SPLIT_KINDS } from "./layout";
+import { DOCUMENT_VALIDATIONS } from "./verify";
+
+export type CliArguments = Partial<GenerateOptions> & {
+  config?: string;
+  // names of config targets to generate, all targets if empty
+  targets?: string[];
+};
+
+const arrayOption = (description: string) =>
+  ({
+    type: "array",
+    string: true,
+    description,
+    coerce: (values: string[]) => values.flatMap(parseArrayString),
+  }) as const;
+
+// parse key=value pairs, values are parsed as JSON if possible
+const parseTemplateArguments = (values: string[]): Record<string, unknown> =>
+  Object.fromEntries(
+    values.map((value) => {
+      const index = value.indexOf("=");
+      if (index <= 0) {
+        throw new Error(
+          `invalid template argument ${value}, expected key=value`,
+        );
+      }
+      const rawValue = value.slice(index + 1);
+      try {
+        return [value.slice(0, index), JSON.parse(rawValue) as unknown];
+      } catch {
+        return [value.slice(0, index), rawValue];
+      }
+    }),
+  );
+
+const generateOptions = {
+  action: {
+    type: "string",
+    choices: ACTIONS,
+    description: "Generate graphql files, templates or all",
+  },
+  url: {
+    type: "string",
+    description: "The graphql endpoint",
+  },
+  schema: {
+    type: "string",
+    description:
+      "Local SDL (.graphql) or introspection (.json) schema file used instead of the endpoint. Supports the {role} placeholder",
+  },
+  "admin-secret": {
+    type: "string",
+    description: "The hasura admin secret",
+  },
+  role: {
+    type: "string",
+    description: "The hasura role used to introspect the schema",
+  },
+  roles: arrayOption(
+    "Hasura roles to generate for in one run, separated by comma",
+  ),
+  "role-output": {
+    type: "string",
+    choices: ["folder", "prefix"],
+    description:
+      "Write outputs of many roles into per-role folders or prefixes",
+  },
+  models: arrayOption(
+    "Models or glob patterns to generate, e.g. users,audit_*, separated by comma",
+  ),
+  "exclude-models": arrayOption(
+    "Model names or glob patterns to exclude, separated by comma",
+  ),
+  "max-depth": {
+    type: "number",
+    description: "The max depth of output sub-fields",
+  },
+  "enable-subfield-args": {
+    type: "boolean",
+    description: "Enable arguments of sub-fields",
+  },
+  "disable-fragments": {
+    type: "boolean",
+    description: "Disable fragment types",
+  },
+  "disable-arg-suffixes": arrayOption("Hide argument suffix types"),
+  "output-path": {
+    type: "string",
+    description: "The folder to generate graphql files to",
+  },
+  "output-file-prefix": {
+    type: "string",
+    description: "The prefix of generated graphql files",
+  },
+  "enable-query": {
+    type: "boolean",
+    description: "Enable queries",
+  },
+  "enable-mutation": {
+    type: "boolean",
+    description: "Enable mutations",
+  },
+  "enable-subscription": {
+    type: "boolean",
+    description: "Enable subscriptions",
+  },
+  "separate-files": {
+    type: "boolean",
+    description: "Separate different graphql files for each model",
+  },
+  "template-path": {
+    type: "string",
+    description: "The template path to render",
+  },
+  concurrency: {
+    type: "number",
+    description:
+      "The number of codegen calls and templates rendered at the same time",
+  },
+  renderer: {
+    type: "string",
+    description:
+      "The template renderer: hygen, ejs, handlebars or the path of a custom renderer module",
+  },
+  "output-file-name": {
+    type: "string",
+    description:
+      "The file name pattern of documents with {model}, {role} and {kind} placeholders, e.g. {role}/{model:kebab}",
+  },
+  "split-kinds": {
+    type: "string",
+    choices: SPLIT_KINDS,
+    description:
+      "Split queries, mutations, subscriptions and fragments into separate files or folders",
+  },
+  "index-file": {
+    type: "boolean",
+    description: "Write index files importing all generated documents",
+  },
+  "validate-documents": {
+    type: "string",
+    choices: DOCUMENT_VALIDATIONS,
+    description:
+      "Fail, warn or skip if generated documents are invalid against the role schema",
+  },
+  "manifest-path": {
+    type: "string",
+    description: "The manifest file recording generated files",
+  },
+  prune: {
+    type: "boolean",
+    description: "Remove generated files which aren't generated anymore",
+  },
+  force: {
+    type: "boolean",
+    description:
+      "Remove files on prune even if they're edited since generation",
+  },
+  typescript: {
+    type: "boolean",
+    description: "Generate typed document nodes next to the graphql files",
+  },
+  hooks: {
+    type: "string",
+    choices: TYPESCRIPT_HOOKS,
+    description: "Generate apollo or urql hooks of typed documents",
+  },
+  metadata: {
+    type: "string",
+    description:
+      "A hasura metadata export file to read custom root field names from",
+  },
+  "disable-fields": arrayOption("Fields to exclude from models"),
+  "disable-field-prefixes": arrayOption(
+    "Field prefixes to exclude from models",
+  ),
+  "disable-field-suffixes": arrayOption(
+    "Field suffixes to exclude from models",
+  ),
+  "primary-key-names": arrayOption(
+    "Fallback primary key names if no insert and update permissions",
+  ),
+  "head-fields": arrayOption("Fields to display first"),
+  "tail-fields": arrayOption("Fields to display last"),
+  method: {
+    type: "string",
+    description: "The HTTP method of the introspection request",
+  },
+  watch: {
+    type: "boolean",
+    description:
+      "Regenerate outputs when templates, the config or the schema change",
+  },
+  "watch-schema-interval": {
+    type: "number",
+    description: "Poll the remote schema every n seconds in watch mode",
+  },
+  offline: {
+    type: "boolean",
+    description: "Use the cached schema instead of introspecting the endpoint",
+  },
+  "cache-path": {
+    type: "string",
+    description: "The folder of cached introspected schemas",
+  },
+  "dry-run": {
+    type: "boolean",
+    description:
+      "List files that would be created, changed or left alone with a diff, without writing",
+  },
+  check: {
+    type: "boolean",
+    description: "Exit with non-zero code if generated outputs are out of date",
+  },
+  silent: {
+    type: "boolean",
+    description: "Skip questions that already have values in the config file",
+  },
+  interactive: {
+    type: "boolean",
+    description:
+      "Prompt for missing options. Use --no-interactive to fail on missing required options instead",
+  },
+} as const;
+
+const optionKeys = Object.keys(generateOptions).map((key) => camel(key));
+
+/**
+ * parse command line arguments into generate options.
+ * Only explicitly set options are returned so they can override the config file
+ */
+const parseArguments = async (
+  args: string[] = hideBin(process.argv),
+): Promise<CliArguments> => {
+  const argv = await yargs(args)
+    .scriptName("hasura-codegen-operations")
+    .command(["generate", "$0"], "Generate hasura operations and templates")
+    .option("config", {
+      type: "string",
+      description: "The config file path",
+    })
+    .option(
+      "target",
+      arrayOption(
+        "Targets of the config file to generate, separated by comma. Generate all targets if not set",
+      ),
+    )
+    .option("template-arg", {
+      type: "array",
+      string: true,
+      description:
+        "Answers of template prompt questions in key=value format, can be repeated",
+      coerce: parseTemplateArguments,
+    })
+    .options(generateOptions)
+    .example(
+      "$0 generate --action all --models users,posts --role user --no-interactive",
+      "",
+    )
+    .example("$0 generate --target admin,customer", "")
+    .example(
+      "$0 generate --action template --template-arg author=me --template-arg withTests=true",
+      "",
+    )
+    .strict()
+    .help()
+    .parse();
+
+  const options = Object.fromEntries(
+    optionKeys.map((key) => [key, argv[key as keyof typeof argv]]),
+  ) as Partial<GenerateOptions>;
+
+  return shake({
+    ...options,
+    config: argv.config,
+    targets: argv.target,
+    templateArguments: argv.templateArg,
+  });
+};
+
+// cli arguments override config options, template arguments are merged.
+// Cli template arguments override template arguments of model overrides too
+const mergeCliOptions = (
+  configs: Partial<GenerateOptions>,
+  cliConfigs: Partial<GenerateOptions>,
+): Partial<GenerateOptions> =>
+  shake({
+    ...configs,
+    ...cliConfigs,
+    templateArguments:
+      (configs.templateArguments ?? cliConfigs.templateArguments)
+        ? { ...configs.templateArguments, ...cliConfigs.templateArguments }
+        : undefined,
+    modelOptions:
+      configs.modelOptions && cliConfigs.templateArguments
+        ? mapValues(configs.modelOptions, (overrides) =>
+            overrides.templateArguments
+              ? {
+                  ...overrides,
+                  templateArguments: {
+                    ...overrides.templateArguments,
+                    ...cliConfigs.templateArguments,
+                  },
+                }
+              : overrides,
+          )
+        : configs.modelOptions,
+  });
+
+const bootstrap = async () => {
+  const argv = await parseArguments();
+
+  const envOutput = dotenvConfig();
+
+  const codegenConfigFile = resolveConfigFile(argv.config);
+  const cliConfigs = omit(argv, ["config", "targets"]);
+
+  const readTargets = () =>
+    resolveTargets(
+      readConfigFile(codegenConfigFile, envOutput.parsed ?? {}),
+      argv.targets,
+    );
+
+  const generateTarget = async ({
+    name,
+    options: targetOptions,
+  }: GenerateTarget) => {
+    if (name) {
+      console.log(`\ngenerating target ${name}...`);
+    }
+    const configs = mergeCliOptions(
+      { ...targetOptions, target: name ?? undefined },
+      cliConfigs,
+    );
+    const [actions, options] =
+      configs.interactive === false
+        ? resolveOptions(configs)
+        : await startPrompt(configs);
+
+    if (!options.watch) {
+      await generate(actions, options);
+      return;
+    }
+
+    await watch(actions, options, {
+      configFile: codegenConfigFile,
+      reloadOptions: (current) => ({
+        ...current,
+        ...mergeCliOptions(
+          readTargets().find((target) => target.name === name)?.options ?? {},
+          cliConfigs,
+        ),
+      }),
+    });
+  };
+
+  try {
+    const targets = readTargets();
+    const isWatching =
+      cliConfigs.watch ?? targets.some((target) => target.options.watch);
+    if (isWatching && targets.length > 1) {
+      throw new Error(
+        "watch mode supports one target only, please select it with --target",
+      );
+    }
+
+    for (const target of targets) {
+      await generateTarget(target);
+    }
+  } catch (err) {
+    console.error("failed to generate: ", getErrorMessage(err));
+    process.exitCode = 1;
+  }
+};
+
+void bootstrap();
@@ -0,0 +1,381 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable no-case-declarations */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+
+import { readFileSync, existsSync } from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { Types } from "@graphql-codegen/plugin-helpers";
+import { parse as parseYaml } from "yaml";
+import { env } from "string-env-interpolation";
+import { shake } from "radash";
+import { ACTIONS, GenerateOptions, ModelOverrides } from "./prompt";
+import { TYPESCRIPT_HOOKS } from "./documents";
+import { SPLIT_KINDS } from "./layout";
+import { DOCUMENT_VALIDATIONS } from "./verify";
+import { validateValue, ValueSchema } from "./validate";
+
+export type ConfigOptions = Omit<
+  Partial<GenerateOptions>,
+  "models" | "target"
+> & {
+  // a list of model names, or a map of model names to their option overrides
+  models?: string[] | Record<string, ModelOverrides | null>;
+};
+
+export type HasuraConfig = ConfigOptions & {
+  // named generation targets, each target inherits options of the hasura block
+  targets?: Record<string, ConfigOptions>;
+};
+
+// the config exported by js and ts config files, in the same shape as codegen.yml
+export type CodegenConfig = Omit<Partial<Types.Config>, "hasura"> & {
+  hasura?: HasuraConfig;
+};
+
+export type GenerateTarget = {
+  // null if the config doesn't have targets
+  name: string | null;
+  options: Partial<GenerateOptions>;
+};
+
+// config files tried in order if the config path isn't set
+const CONFIG_FILES = [
+  "codegen.yml",
+  "codegen.yaml",
+  "codegen.ts",
+  "codegen.js",
+  "hasura-codegen.config.ts",
+  "hasura-codegen.config.js",
+];
+
+const SCRIPT_EXTENSIONS = [".js", ".cjs", ".ts", ".cts"];
+
+const stringArraySchema: ValueSchema = { array: "string" };
+
+const modelOverridesSchema: ValueSchema = {
+  object: {
+    maxDepth: "number",
+    enableSubfieldArgs: "boolean",
+    disableFragments: "boolean",
+    disableArgSuffixes: stringArraySchema,
+    enableQuery: "boolean",
+    enableMutation: "boolean",
+    enableSubscription: "boolean",
+    disableFields: stringArraySchema,
+    disableFieldPrefixes: stringArraySchema,
+    disableFieldSuffixes: stringArraySchema,
+    primaryKeyNames: stringArraySchema,
+    headFields: stringArraySchema,
+    tailFields: stringArraySchema,
+    templateArguments: { record: "any" },
+  } satisfies Record<keyof ModelOverrides, ValueSchema>,
+};
+
+const configOptionsSchema: ValueSchema = {
+  object: {
+    url: "string",
+    adminSecret: "string",
+    role: "string",
+    models: {
+      oneOf: [
+        stringArraySchema,
+        { record: { nullable: modelOverridesSchema } },
+      ],
+    },
+    maxDepth: "number",
+    enableSubfieldArgs: "boolean",
+    disableFragments: "boolean",
+    disableArgSuffixes: stringArraySchema,
+    outputPath: "string",
+    outputFilePrefix: "string",
+    enableQuery: "boolean",
+    enableMutation: "boolean",
+    enableSubscription: "boolean",
+    separateFiles: "boolean",
+    templatePath: "string",
+    disableFields: stringArraySchema,
+    disableFieldPrefixes: stringArraySchema,
+    disableFieldSuffixes: stringArraySchema,
+    primaryKeyNames: stringArraySchema,
+    headFields: stringArraySchema,
+    tailFields: stringArraySchema,
+    action: { enum: ACTIONS },
+    schema: "string",
+    headers: { record: "string" },
+    method: "string",
+    silent: "boolean",
+    interactive: "boolean",
+    roles: stringArraySchema,
+    roleOutput: { enum: ["folder", "prefix"] },
+    excludeModels: stringArraySchema,
+    scalars: { record: "string" },
+    watch: "boolean",
+    watchSchemaInterval: "number",
+    dryRun: "boolean",
+    check: "boolean",
+    cachePath: "string",
+    offline: "boolean",
+    modelOptions: { record: modelOverridesSchema },
+    renderer: "string",
+    templateArguments: { record: "any" },
+    concurrency: "number",
+    metadata: "string",
+    typescript: "boolean",
+    hooks: { enum: TYPESCRIPT_HOOKS },
+    outputFileName: "string",
+    splitKinds: { enum: SPLIT_KINDS },
+    indexFile: "boolean",
+    manifestPath: "string",
+    prune: "boolean",
+    force: "boolean",
+    validateDocuments: { enum: DOCUMENT_VALIDATIONS },
+  } satisfies Record<keyof ConfigOptions, ValueSchema>,
+};
+
+const hasuraConfigSchema: ValueSchema = {
+  object: {
+    ...configOptionsSchema.object,
+    targets: { record: configOptionsSchema },
+  },
+};
+
+/**
+ * type the config exported by codegen.ts or hasura-codegen.config.js
+ */
+export const defineConfig = (config: CodegenConfig): CodegenConfig => config;
+
+export const resolveConfigFile = (configPath?: string): string => {
+  const requestedFile = process.env.CONFIG_PATH ?? configPath;
+  const codegenConfigFile =
+    [requestedFile, ...CONFIG_FILES].find(
+      (file): file is string => !!file && existsSync(file),
+    ) ??
+    requestedFile ??
+    CONFIG_FILES[0];
+  console.warn(`trying to read config file ${codegenConfigFile}...`);
+
+  return codegenConfigFile;
+};
+
+/**
+ * load a js or ts config file. TypeScript files are transpiled
+ * with the typescript package of the project
+ */
+const loadConfigModule = (filePath: string): CodegenConfig => {
+  // clear the module cache so changes are reloaded in watch mode
+  // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+  delete require.cache[filePath];
+
+  let exports: { default?: CodegenConfig } & CodegenConfig;
+  if (!filePath.endsWith("ts")) {
+    exports = require(filePath);
+  } else {
+    let ts: typeof import("typescript");
+    try {
+      ts = require(require.resolve("typescript", { paths: [process.cwd()] }));
+    } catch {
+      throw new Error(
+        `the typescript package is required to load the config file ${filePath}`,
+      );
+    }
+
+    const { outputText } = ts.transpileModule(readFileSync(filePath, "utf-8"), {
+      fileName: filePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+    });
+    // run the transpiled module with require resolving from the config folder
+    const configModule = { exports: {} };
+    // eslint-disable-next-line @typescript-eslint/no-implied-eval
+    new Function(
+      "exports",
+      "require",
+      "module",
+      "__filename",
+      "__dirname",
+      outputText,
+    )(
+      configModule.exports,
+      createRequire(filePath),
+      configModule,
+      filePath,
+      path.dirname(filePath),
+    );
+    exports = configModule.exports;
+  }
+
+  return exports.default ?? exports;
+};
+
+const loadConfig = (
+  codegenConfigFile: string,
+  envVars: Record<string, string>,
+): CodegenConfig | null => {
+  if (!existsSync(codegenConfigFile)) {
+    console.warn("WARNING: the config file is not found");
+    return null;
+  }
+
+  const filePath = path.resolve(process.cwd(), codegenConfigFile);
+  if (SCRIPT_EXTENSIONS.includes(path.extname(filePath))) {
+    return loadConfigModule(filePath);
+  }
+
+  const configString = readFileSync(filePath, "utf-8");
+  const interpolationConfig = env(configString, envVars);
+  return parseYaml(interpolationConfig) as CodegenConfig;
+};
+
+/**
+ * read generate options from the hasura block and the schema of the codegen config file
+ */
+export const readConfigFile = (
+  codegenConfigFile: string,
+  envVars: Record<string, string> = {},
+): HasuraConfig => {
+  const configYaml = loadConfig(codegenConfigFile, envVars) ?? {};
+
+  const { errors, unknownKeys } = validateValue(
+    hasuraConfigSchema,
+    configYaml.hasura ?? {},
+    "hasura",
+  );
+  if (errors.length) {
+    throw new Error(
+      `invalid config ${codegenConfigFile}:\n  ${errors.join("\n  ")}`,
+    );
+  }
+  if (unknownKeys.length) {
+    console.warn(
+      `WARNING: unknown config keys are ignored: ${unknownKeys.join(", ")}`,
+    );
+  }
+
+  const defaultConfigs = { ...configYaml.hasura };
+
+  if (configYaml.schema) {
+    switch (typeof configYaml.schema) {
+      case "string":
+        defaultConfigs.url = configYaml.schema;
+        break;
+      case "object":
+        if (!Array.isArray(configYaml.schema)) {
+          throw new Error(
+            `invalid schema config, expected string or array object, got object`,
+          );
+        }
+
+        const [schemaConfig, ...ignoredSchemas] = configYaml.schema;
+        if (ignoredSchemas.length) {
+          console.warn(
+            `WARNING: only the first schema is used, ignored schemas: ${ignoredSchemas
+              .map((item) =>
+                typeof item === "string" ? item : Object.keys(item)[0],
+              )
+              .join(", ")}`,
+          );
+        }
+        if (typeof schemaConfig === "string") {
+          defaultConfigs.url = schemaConfig;
+          break;
+        }
+
+        const url = Object.keys(schemaConfig)[0];
+        defaultConfigs.url = url;
+        defaultConfigs.headers = schemaConfig[url].headers;
+        defaultConfigs.method = schemaConfig[url].method || "POST";
+        if (defaultConfigs.headers) {
+          if (defaultConfigs.headers["x-hasura-admin-secret"]) {
+            defaultConfigs.adminSecret =
+              defaultConfigs.headers["x-hasura-admin-secret"];
+          }
+          if (defaultConfigs.headers["x-hasura-role"]) {
+            defaultConfigs.role = defaultConfigs.headers["x-hasura-role"];
+          }
+        }
+        break;
+      default:
+        throw new Error(
+          `invalid schema config, expected string or array object, got ${typeof configYaml.schema}`,
+        );
+    }
+  }
+
+  return defaultConfigs;
+};
+
+/**
+ * split the models map of the config into model names and their overrides
+ */
+const normalizeModels = (options: ConfigOptions): Partial<GenerateOptions> => {
+  const { models, ...rest } = options;
+  if (!models) {
+    return rest;
+  }
+  if (Array.isArray(models)) {
+    return { ...rest, models };
+  }
+
+  return {
+    ...rest,
+    models: Object.keys(models),
+    modelOptions: {
+      ...rest.modelOptions,
+      ...(shake(models, (value) => !value) as Record<string, ModelOverrides>),
+    },
+  };
+};
+
+/**
+ * resolve options of selected targets, or all targets if no target is selected.
+ * The config without targets is resolved as a single unnamed target
+ */
+export const resolveTargets = (
+  config: HasuraConfig,
+  targetNames: string[] = [],
+): GenerateTarget[] => {
+  const { targets, ...sharedConfig } = config;
+  const sharedOptions = normalizeModels(sharedConfig);
+  if (!targets || !Object.keys(targets).length) {
+    if (targetNames.length) {
+      throw new Error(
+        `targets ${targetNames.join(", ")} are selected, but the config doesn't have any target`,
+      );
+    }
+    return [{ name: null, options: sharedOptions }];
+  }
+
+  const unknownTargets = targetNames.filter((name) => !(name in targets));
+  if (unknownTargets.length) {
+    throw new Error(
+      `targets ${unknownTargets.join(", ")} don't exist, available targets: ${Object.keys(
+        targets,
+      ).join(", ")}`,
+    );
+  }
+
+  return (targetNames.length ? targetNames : Object.keys(targets)).map(
+    (name) => {
+      const targetOptions = normalizeModels(targets[name]);
+      return {
+        name,
+        options: {
+          ...sharedOptions,
+          ...targetOptions,
+          modelOptions: {
+            ...sharedOptions.modelOptions,
+            ...targetOptions.modelOptions,
+          },
+          templateArguments: {
+            ...sharedOptions.templateArguments,
+            ...targetOptions.templateArguments,
+          },
+        },
+      };
+    },
+  );
+};
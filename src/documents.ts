@@ -0,0 +1,165 @@
+import { DocumentNode, GraphQLSchema, Kind, parse } from "graphql";
+import { codegen } from "@graphql-codegen/core";
+import { CodegenPlugin, Types } from "@graphql-codegen/plugin-helpers";
+import * as typedDocumentNodePlugin from "@graphql-codegen/typed-document-node";
+import * as typescriptPlugin from "@graphql-codegen/typescript";
+import * as typescriptOperationsPlugin from "@graphql-codegen/typescript-operations";
+import { convertFactory } from "@graphql-codegen/visitor-plugin-common";
+import { defaultScalars } from "./schema";
+import { OutputFile } from "./output";
+import { getImportPath } from "./layout";
+
+export type TypeScriptHooks = "apollo" | "urql";
+
+export const TYPESCRIPT_HOOKS: TypeScriptHooks[] = ["apollo", "urql"];
+
+export type GenerateTypeScriptOptions = {
+  schema: DocumentNode;
+  schemaAst: GraphQLSchema;
+  // the shared file of scalars, enums and input types of the schema
+  typesPath: string;
+  scalars?: Record<string, string>;
+  hooks?: TypeScriptHooks;
+};
+
+// hooks plugins are optional, they're loaded from the project
+const HOOKS_PLUGINS: Record<TypeScriptHooks, string> = {
+  apollo: "@graphql-codegen/typescript-react-apollo",
+  urql: "@graphql-codegen/typescript-urql",
+};
+
+// the namespace of shared types imported by generated files
+const TYPES_NAMESPACE = "Types";
+// the namespace of documents and operation types imported by hooks files
+const OPERATIONS_NAMESPACE = "Operations";
+
+const loadHooksPlugin = (hooks: TypeScriptHooks): CodegenPlugin => {
+  const packageName = HOOKS_PLUGINS[hooks];
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(
+      require.resolve(packageName, {
+        paths: [process.cwd()],
+      }),
+    ) as CodegenPlugin;
+  } catch {
+    throw new Error(
+      `the ${packageName} package is required to generate ${hooks} hooks, please install it`,
+    );
+  }
+};
+
+// apollo hooks of external documents import them by operation names,
+// so documents are re-exported with their operation names too
+const getOperationAliases = (document: DocumentNode): string => {
+  const convertName = convertFactory({});
+  const aliases = document.definitions.flatMap((definition) =>
+    definition.kind === Kind.OPERATION_DEFINITION && definition.name
+      ? [
+          `${convertName(definition, {
+            suffix: "Document",
+          })} as ${definition.name.value}`,
+        ]
+      : [],
+  );
+  return aliases.length ? `\nexport { ${aliases.join(", ")} };\n` : "";
+};
+
+const getScalars = (scalars: Record<string, string> = {}) => ({
+  ...(defaultScalars as Record<string, string>),
+  ...scalars,
+});
+
+/**
+ * generate typed document nodes of generated graphql files,
+ * and hooks files if hooks are enabled.
+ * Scalars, enums and input types are generated once into the shared types file
+ */
+export const generateTypeScript = async (
+  graphqlFiles: OutputFile[],
+  options: GenerateTypeScriptOptions,
+): Promise<OutputFile[]> => {
+  const files = graphqlFiles.filter((file) => file.content.trim());
+  if (!files.length) {
+    return [];
+  }
+
+  const scalars = getScalars(options.scalars);
+  const hooksPlugin = options.hooks && loadHooksPlugin(options.hooks);
+
+  const typesContent = await codegen({
+    documents: [],
+    config: {},
+    filename: options.typesPath,
+    schema: options.schema,
+    schemaAst: options.schemaAst,
+    plugins: [{ typescript: { onlyOperationTypes: true, scalars } }],
+    pluginMap: { typescript: typescriptPlugin },
+  });
+
+  const outputs = await Promise.all(
+    files.map(async (file) => {
+      const filePath = file.path.replace(/\.graphql$/, ".ts");
+      const document = parse(file.content);
+      const documents: Types.DocumentFile[] = [
+        { location: file.path, document },
+      ];
+      const content = await codegen({
+        documents,
+        config: { scalars, namespacedImportName: TYPES_NAMESPACE },
+        filename: filePath,
+        schema: options.schema,
+        schemaAst: options.schemaAst,
+        plugins: [
+          { "typescript-operations": {} },
+          { "typed-document-node": {} },
+        ],
+        pluginMap: {
+          "typescript-operations": typescriptOperationsPlugin,
+          "typed-document-node": typedDocumentNodePlugin,
+        },
+      });
+      const typedFile: OutputFile = {
+        ...file,
+        path: filePath,
+        content: `import * as ${TYPES_NAMESPACE} from "${getImportPath(
+          filePath,
+          options.typesPath,
+        )}";\n\n${content}\n${
+          options.hooks === "apollo" ? getOperationAliases(document) : ""
+        }`,
+      };
+      if (!options.hooks || !hooksPlugin) {
+        return [typedFile];
+      }
+
+      // hooks import documents and operation types from the typed file
+      const hooksPath = file.path.replace(/\.graphql$/, ".hooks.ts");
+      const hooksContent = await codegen({
+        documents,
+        config: {
+          scalars,
+          documentMode: "external",
+          importDocumentNodeExternallyFrom: getImportPath(hooksPath, filePath),
+          importOperationTypesFrom: OPERATIONS_NAMESPACE,
+          withHooks: true,
+        },
+        filename: hooksPath,
+        schema: options.schema,
+        schemaAst: options.schemaAst,
+        plugins: [{ [options.hooks]: {} }],
+        pluginMap: { [options.hooks]: hooksPlugin },
+      });
+
+      return [
+        typedFile,
+        { ...file, path: hooksPath, content: `${hooksContent}\n` },
+      ];
+    }),
+  );
+
+  return [
+    { path: options.typesPath, content: `${typesContent}\n` },
+    ...outputs.flat(),
+  ];
+};
@@ -0,0 +1,756 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+
+import { existsSync, statSync } from "fs";
+import path from "path";
+import { printSchema, parse, DocumentNode, GraphQLSchema } from "graphql";
+import * as hasuraPlugin from "graphql-codegen-hasura-operations";
+import { codegen } from "@graphql-codegen/core";
+import { Types } from "@graphql-codegen/plugin-helpers";
+import { prompt } from "enquirer";
+import { group, parallel, pick, unique } from "radash";
+import {
+  resolveRenderer,
+  TemplateContext,
+  TemplateRenderer,
+  writeTemplate,
+} from "./renderer";
+import buildModelSchemas, { ModelSchemas } from "./schema";
+import { loadCachedSchema } from "./cache";
+import { collectDocumentNames, createTemplateHelpers } from "./helpers";
+import { buildSchemaChanges, printSchemaChanges } from "./report";
+import { loadRootFieldNames, RootFieldNames } from "./naming";
+import { generateTypeScript } from "./documents";
+import { updateManifest } from "./manifest";
+import {
+  findDuplicateDocumentNames,
+  reportDocumentProblems,
+  verifyDocuments,
+} from "./verify";
+import {
+  addFragmentImports,
+  buildIndexFile,
+  DocumentKind,
+  formatFileName,
+  getFileNamePattern,
+  splitDocumentKinds,
+} from "./layout";
+import {
+  discoverModels,
+  getModelOptions,
+  matchModelPattern,
+  filterRoleModels,
+  matchModels,
+} from "./models";
+import {
+  Action,
+  applyDefaultOptions,
+  GenerateOptions,
+  getRoles,
+  promptModels,
+} from "./prompt";
+import {
+  diffOutputFiles,
+  OutputFile,
+  printFileChanges,
+  writeOutputFile,
+} from "./output";
+
+export type GenerateContext = {
+  roles: string[];
+  // the first role is the primary one, its schema is used to render templates
+  roleSchemas: Record<string, GraphQLSchema>;
+  models: string[];
+  // answers of the template prompt, kept to be reused in watch mode
+  templateArguments?: Record<string, unknown>;
+};
+
+// the default number of codegen calls and templates rendered at the same time
+const DEFAULT_CONCURRENCY = 10;
+
+const getConcurrency = (options: GenerateOptions): number =>
+  Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+
+/**
+ * get the error message, parallel tasks fail with an aggregate error of all failed tasks
+ */
+export const getErrorMessage = (err: unknown): string => {
+  const { errors } = err as { errors?: unknown };
+  return Array.isArray(errors)
+    ? unique(errors.map(getErrorMessage)).join("\n")
+    : (err as Error).message;
+};
+
+// run a phase and print its duration
+const timed = async <T>(label: string, task: () => Promise<T>): Promise<T> => {
+  const startedAt = Date.now();
+  const result = await task();
+  console.log(`${label} in ${Date.now() - startedAt}ms`);
+  return result;
+};
+
+// the shared file of scalars, enums and input types of typed documents
+const TYPES_FILE_NAME = "schema.types.ts";
+
+// parsed schema documents, shared by codegen calls of the same schema
+const schemaDocuments = new WeakMap<GraphQLSchema, DocumentNode>();
+
+const getSchemaDocument = (schema: GraphQLSchema): DocumentNode => {
+  const cachedDocument = schemaDocuments.get(schema);
+  if (cachedDocument) {
+    return cachedDocument;
+  }
+  const document = parse(printSchema(schema));
+  schemaDocuments.set(schema, document);
+  return document;
+};
+
+// metadata is parsed once per file version, it's used by every step of a run
+const metadataCache = new Map<
+  string,
+  { mtimeMs: number; rootFieldNames: RootFieldNames }
+>();
+
+const getRootFieldNames = (
+  options: Partial<GenerateOptions>,
+): RootFieldNames | undefined => {
+  if (!options.metadata) {
+    return undefined;
+  }
+
+  const metadataPath = path.resolve(options.metadata);
+  const { mtimeMs } = statSync(metadataPath);
+  const cached = metadataCache.get(metadataPath);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.rootFieldNames;
+  }
+
+  const rootFieldNames = loadRootFieldNames(metadataPath);
+  metadataCache.set(metadataPath, { mtimeMs, rootFieldNames });
+  return rootFieldNames;
+};
+
+export const loadRoleSchemas = async (
+  options: GenerateOptions,
+): Promise<Record<string, GraphQLSchema>> => {
+  const roleSchemas: Record<string, GraphQLSchema> = {};
+  const rootFieldNames = getRootFieldNames(options);
+  for (const role of getRoles(options)) {
+    const { schema, previousSchema } = await loadCachedSchema({
+      ...options,
+      role,
+    });
+    roleSchemas[role] = schema;
+
+    if (previousSchema) {
+      const models = unique([
+        ...discoverModels(previousSchema, rootFieldNames),
+        ...discoverModels(schema, rootFieldNames),
+      ]).filter(
+        (model) =>
+          (!options.models.length ||
+            options.models.some((name) => matchModelPattern(name, model))) &&
+          !options.excludeModels?.some((name) =>
+            matchModelPattern(name, model),
+          ),
+      );
+      printSchemaChanges(
+        role,
+        buildSchemaChanges(previousSchema, schema, models, {
+          ...options,
+          rootFieldNames,
+        }),
+      );
+    }
+  }
+  return roleSchemas;
+};
+
+export const resolveModels = async (
+  roleSchemas: Record<string, GraphQLSchema>,
+  options: GenerateOptions,
+): Promise<string[]> => {
+  const rootFieldNames = getRootFieldNames(options);
+  const availableModels = unique(
+    Object.values(roleSchemas).flatMap((schema) =>
+      discoverModels(schema, rootFieldNames),
+    ),
+  );
+  const models =
+    !options.models.length && options.interactive !== false
+      ? await promptModels(availableModels)
+      : matchModels(
+          Object.values(roleSchemas),
+          availableModels,
+          options.models,
+          options.excludeModels,
+        );
+  if (!models.length) {
+    throw new Error(
+      `no model matches ${options.models.join(", ")} in the schema`,
+    );
+  }
+
+  return models;
+};
+
+export const prepareContext = async (
+  options: GenerateOptions,
+): Promise<GenerateContext> => {
+  const roleSchemas = await timed("loaded schemas", () =>
+    loadRoleSchemas(options),
+  );
+  return {
+    roles: getRoles(options),
+    roleSchemas,
+    models: await resolveModels(roleSchemas, options),
+  };
+};
+
+const buildPluginConfig = (options: GenerateOptions) => ({
+  disableOperationTypes: [
+    options.enableQuery ? null : "query",
+    options.enableMutation ? null : "mutation",
+    options.enableSubscription ? null : "subscription",
+  ].filter((s) => s),
+  maxDepth: options.maxDepth,
+  enableSubfieldArgs: options.enableSubfieldArgs,
+  disableFragments: options.disableFragments,
+  disableArgSuffixes: options.disableArgSuffixes,
+  disableFields: options.disableFields,
+  disableFieldPrefixes: options.disableFieldPrefixes,
+  disableFieldSuffixes: options.disableFieldSuffixes,
+});
+
+export const generateGraphQL = async (
+  context: GenerateContext,
+  options: GenerateOptions,
+): Promise<OutputFile[]> => {
+  const { roles, roleSchemas, models } = context;
+
+  // outputs of many roles are written into per-role folders or prefixed
+  const getOutputFilePath = (role: string, fileName: string) => {
+    const outputDir =
+      roles.length > 1 && options.roleOutput !== "prefix"
+        ? path.join(options.outputPath, role)
+        : options.outputPath;
+    // prefixes are added to the base name, file names may have folders
+    const outputFileName = `${
+      roles.length > 1 && options.roleOutput === "prefix" ? `${role}_` : ""
+    }${options.outputFilePrefix}${path.basename(fileName)}`;
+    return path.resolve(outputDir, path.dirname(fileName), outputFileName);
+  };
+
+  // the kind is only set for documents split by kind
+  const getDocumentFilePath = (
+    role: string,
+    models: string[],
+    kind?: DocumentKind,
+  ) => {
+    const pattern = getFileNamePattern(
+      options.outputFileName,
+      kind && options.splitKinds,
+    );
+    return getOutputFilePath(
+      role,
+      `${formatFileName(pattern, {
+        model: models.join("_"),
+        role,
+        kind: kind ?? "operations",
+      })}.graphql`,
+    );
+  };
+
+  const genGraphQL = async (
+    roleSchema: GraphQLSchema,
+    models: string[],
+    role: string,
+  ): Promise<OutputFile> => {
+    const outputFilePath = getDocumentFilePath(role, models);
+
+    // models with the same options are generated together
+    const modelGroups = Object.values(
+      group(models, (model) =>
+        JSON.stringify(
+          buildPluginConfig(
+            getModelOptions(options, options.modelOptions, model),
+          ),
+        ),
+      ),
+    );
+
+    const outputs = await Promise.all(
+      modelGroups.map((groupModels = []) => {
+        const config: Types.GenerateOptions = {
+          documents: [],
+          config: {},
+          // used by a plugin internally, although the 'typescript' plugin currently
+          // returns the string output, rather than writing to a file
+          filename: outputFilePath,
+          schema: getSchemaDocument(roleSchema),
+          schemaAst: roleSchema,
+          plugins: [
+            {
+              "graphql-codegen-hasura-graphql": {
+                models: groupModels,
+                ...buildPluginConfig(
+                  getModelOptions(
+                    options,
+                    options.modelOptions,
+                    groupModels[0],
+                  ),
+                ),
+              },
+            },
+          ],
+          pluginMap: {
+            "graphql-codegen-hasura-graphql": hasuraPlugin,
+          },
+        };
+
+        return codegen(config);
+      }),
+    );
+
+    return {
+      path: outputFilePath,
+      content: outputs.join("\n"),
+      models,
+      role,
+    };
+  };
+
+  // documents of each role only have models which the role can see
+  const rootFieldNames = getRootFieldNames(options);
+  const tasks = roles.flatMap((role) => {
+    const roleModels = filterRoleModels(
+      roleSchemas[role],
+      models,
+      rootFieldNames,
+    );
+    if (!roleModels.length) {
+      return [];
+    }
+    return options.separateFiles
+      ? roleModels.map((model) => ({ role, models: [model] }))
+      : [{ role, models: roleModels }];
+  });
+
+  const documentFiles = await parallel(getConcurrency(options), tasks, (task) =>
+    genGraphQL(roleSchemas[task.role], task.models, task.role),
+  );
+  // documents are validated before typed documents are generated from them.
+  // Prefixed files of many roles share the output folder, so their names are checked together
+  if (options.validateDocuments !== "off") {
+    const isSharedOutput = roles.length > 1 && options.roleOutput === "prefix";
+    reportDocumentProblems(
+      [
+        ...roles.flatMap((role) =>
+          verifyDocuments(
+            documentFiles.filter((file) => file.role === role),
+            roleSchemas[role],
+            !isSharedOutput,
+          ),
+        ),
+        ...(isSharedOutput ? findDuplicateDocumentNames(documentFiles) : []),
+      ],
+      options.validateDocuments,
+    );
+  }
+  const roleFiles = await parallel(
+    getConcurrency(options),
+    roles,
+    async (role) => {
+      const roleDocumentFiles = documentFiles.filter(
+        (_, index) => tasks[index].role === role,
+      );
+      const roleModels = tasks
+        .filter((task) => task.role === role)
+        .map((task) => task.models);
+
+      const graphqlFiles = options.splitKinds
+        ? addFragmentImports(
+            roleDocumentFiles.flatMap((file, index) =>
+              splitDocumentKinds(file.content).map(([kind, content]) => ({
+                ...file,
+                path: getDocumentFilePath(role, roleModels[index], kind),
+                content,
+              })),
+            ),
+          )
+        : roleDocumentFiles;
+      // typed documents aren't split, fragments are used by operations of other kinds
+      const typescriptFiles = options.typescript
+        ? await generateTypeScript(roleDocumentFiles, {
+            schema: getSchemaDocument(roleSchemas[role]),
+            schemaAst: roleSchemas[role],
+            typesPath: getOutputFilePath(role, TYPES_FILE_NAME),
+            scalars: options.scalars,
+            hooks: options.hooks,
+          })
+        : [];
+
+      const indexFiles = options.indexFile
+        ? [
+            buildIndexFile(
+              getOutputFilePath(role, "index.graphql"),
+              graphqlFiles,
+            ),
+            ...(typescriptFiles.length
+              ? [
+                  buildIndexFile(
+                    getOutputFilePath(role, "index.ts"),
+                    typescriptFiles,
+                  ),
+                ]
+              : []),
+          ]
+        : [];
+
+      // shared files of the role, e.g. types and index files, don't have models
+      return [...graphqlFiles, ...typescriptFiles, ...indexFiles].map(
+        (file) => ({ role, ...file }),
+      );
+    },
+  );
+
+  return roleFiles.flat();
+};
+
+/**
+ * ask questions of the template prompt.js file if it exists.
+ * Questions answered already are skipped, and unanswered questions fail in non-interactive mode
+ */
+export const promptTemplateArguments = async (
+  templatePath: string,
+  answers: Record<string, unknown> = {},
+  interactive = true,
+): Promise<Record<string, unknown>> => {
+  const promptTemplatePath = path.resolve(templatePath, "prompt.js");
+  if (!existsSync(promptTemplatePath)) {
+    return answers;
+  }
+
+  // clear the module cache so changes of prompt.js are reloaded in watch mode
+  // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+  delete require.cache[require.resolve(promptTemplatePath)];
+  const templatePromptOptions = await import(promptTemplatePath);
+  if (!templatePromptOptions.default) {
+    return answers;
+  }
+
+  const defaultQuestions = templatePromptOptions.default as
+    { name?: string } | { name?: string }[];
+  const questions = (
+    Array.isArray(defaultQuestions) ? defaultQuestions : [defaultQuestions]
+  ).filter((question) => !question.name || !(question.name in answers));
+
+  if (questions.length && !interactive) {
+    throw new Error(
+      `template questions ${questions
+        .map((question) => question.name)
+        .join(
+          ", ",
+        )} aren't answered, please set them with --template-arg or templateArguments in the config`,
+    );
+  }
+
+  return {
+    ...answers,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ...(questions.length ? await prompt(questions as any[]) : {}),
+  };
+};
+
+export type RenderTemplatesOptions = {
+  templatePath: string;
+  roles?: string[];
+  // extra arguments passed to templates, e.g. answers of the template prompt
+  templateArguments?: Record<string, unknown>;
+  // extra arguments of each model, merged over templateArguments
+  modelTemplateArguments?: Record<string, Record<string, unknown>>;
+  // hygen, ejs, handlebars, the path of a custom renderer module or a renderer object
+  renderer?: string | TemplateRenderer;
+  // generated graphql documents, used by helpers to resolve operation and fragment names
+  documents?: string[];
+};
+
+const toTemplateArguments = (
+  modelSchemas: Record<string, ModelSchemas>,
+  options: RenderTemplatesOptions,
+): TemplateContext[] => {
+  const documentNames = collectDocumentNames(
+    options.documents ?? [],
+    modelSchemas,
+  );
+  return Object.keys(modelSchemas).map((modelName) => ({
+    actionfolder: options.templatePath,
+    modelName,
+    roles: options.roles ?? [],
+    ...modelSchemas[modelName],
+    h: createTemplateHelpers(documentNames[modelName]),
+    ...options.templateArguments,
+    ...options.modelTemplateArguments?.[modelName],
+  }));
+};
+
+const buildTemplateArguments = async (
+  context: GenerateContext,
+  options: GenerateOptions,
+  documents?: string[],
+): Promise<TemplateContext[]> => {
+  const { roles, roleSchemas, models } = context;
+  const modelSchemas = await timed("built model schemas", () =>
+    Promise.resolve(
+      buildModelSchemas(roleSchemas[roles[0]], models, {
+        disableFields: options.disableFields,
+        disableFieldPrefixes: options.disableFieldPrefixes,
+        disableFieldSuffixes: options.disableFieldSuffixes,
+        primaryKeyNames: options.primaryKeyNames,
+        headFields: options.headFields,
+        tailFields: options.tailFields,
+        roleSchemas,
+        scalars: options.scalars,
+        modelOptions: options.modelOptions,
+        rootFieldNames: getRootFieldNames(options),
+      }),
+    ),
+  );
+
+  // answers of the config and cli arguments, merged with answers of each model
+  const modelTemplateArguments = Object.fromEntries(
+    models.map((model) => [
+      model,
+      getModelOptions(options, options.modelOptions, model).templateArguments ??
+        {},
+    ]),
+  );
+  // questions answered for every model aren't asked
+  const answeredArguments = models.reduce(
+    (acc, model) => pick(acc, Object.keys(modelTemplateArguments[model])),
+    modelTemplateArguments[models[0]],
+  );
+
+  // try to load extra prompt
+  const templateArguments = await promptTemplateArguments(
+    options.templatePath,
+    { ...context.templateArguments, ...answeredArguments },
+    options.interactive !== false,
+  );
+  context.templateArguments = templateArguments;
+
+  // generate documents in memory to get the names of operations,
+  // each model is generated with the first role which can see it
+  const rootFieldNames = getRootFieldNames(options);
+  const modelRoles = roles.reduce<[string, string[]][]>((acc, role) => {
+    const resolvedModels = acc.flatMap(([, items]) => items);
+    const roleModels = filterRoleModels(
+      roleSchemas[role],
+      models.filter((model) => !resolvedModels.includes(model)),
+      rootFieldNames,
+    );
+    return roleModels.length ? [...acc, [role, roleModels]] : acc;
+  }, []);
+  const templateDocuments =
+    documents ??
+    (
+      await Promise.all(
+        modelRoles.map(([role, roleModels]) =>
+          generateGraphQL(
+            { ...context, roles: [role], models: roleModels },
+            {
+              ...options,
+              separateFiles: false,
+              typescript: false,
+              validateDocuments: "off",
+            },
+          ),
+        ),
+      )
+    )
+      .flat()
+      .map((file) => file.content);
+
+  return toTemplateArguments(modelSchemas, {
+    templatePath: options.templatePath,
+    roles,
+    templateArguments,
+    modelTemplateArguments,
+    documents: templateDocuments,
+  });
+};
+
+const renderTemplateOutputs = async (
+  templateArguments: TemplateContext[],
+  renderer: TemplateRenderer,
+  concurrency = DEFAULT_CONCURRENCY,
+): Promise<OutputFile[]> => {
+  const outputFiles = await parallel(concurrency, templateArguments, (args) =>
+    renderer.render(args),
+  );
+  return outputFiles.flat();
+};
+
+/**
+ * render and write templates.
+ * Documents are generated in memory to resolve operation names if they aren't given
+ */
+export const generateTemplates = async (
+  context: GenerateContext,
+  options: GenerateOptions,
+  documents?: string[],
+) => {
+  const templateArguments = await buildTemplateArguments(
+    context,
+    options,
+    documents,
+  );
+  // hygen prompts before overwriting files, which can't be answered without a user
+  const renderer = resolveRenderer(options.renderer, {
+    overwrite: options.interactive === false || Boolean(options.watch),
+  });
+  const templateFiles = await timed("rendered templates", () =>
+    parallel(getConcurrency(options), templateArguments, async (args) =>
+      (await writeTemplate(renderer, args)).map((file) => ({
+        ...file,
+        kind: "template" as const,
+        models: [args.modelName],
+        role: context.roles[0] ?? null,
+      })),
+    ),
+  );
+  updateManifest(templateFiles.flat(), { ...options, kinds: ["template"] });
+};
+
+/**
+ * render templates into memory without writing files
+ */
+export const previewTemplates = async (
+  context: GenerateContext,
+  options: GenerateOptions,
+  documents?: string[],
+): Promise<OutputFile[]> => {
+  const templateArguments = await buildTemplateArguments(
+    context,
+    options,
+    documents,
+  );
+  return timed("rendered templates", () =>
+    renderTemplateOutputs(
+      templateArguments,
+      resolveRenderer(options.renderer),
+      getConcurrency(options),
+    ),
+  );
+};
+
+/**
+ * generate graphql operations of models in the schema without prompting.
+ * All discovered models are generated if options.models is empty
+ */
+export const generateOperations = async (
+  schema: GraphQLSchema,
+  options: Partial<GenerateOptions> = {},
+): Promise<OutputFile[]> => {
+  const generateOptions = applyDefaultOptions(options);
+  const models = matchModels(
+    [schema],
+    discoverModels(schema, getRootFieldNames(generateOptions)),
+    generateOptions.models.length ? generateOptions.models : ["*"],
+    generateOptions.excludeModels,
+  );
+
+  return generateGraphQL(
+    {
+      roles: [generateOptions.role],
+      roleSchemas: { [generateOptions.role]: schema },
+      models,
+    },
+    generateOptions,
+  );
+};
+
+/**
+ * render templates of model schemas into memory without prompting.
+ * Questions of prompt.js are skipped, pass answers with options.templateArguments instead
+ */
+export const renderTemplates = (
+  modelSchemas: Record<string, ModelSchemas>,
+  options: RenderTemplatesOptions,
+): Promise<OutputFile[]> =>
+  renderTemplateOutputs(
+    toTemplateArguments(modelSchemas, options),
+    resolveRenderer(options.renderer),
+  );
+
+/**
+ * print files that would be created or changed.
+ * In check mode, fail if any generated file differs from the file on disk
+ */
+const reportChanges = (files: OutputFile[], options: GenerateOptions) => {
+  const changes = diffOutputFiles(files);
+  printFileChanges(changes, Boolean(options.dryRun));
+
+  const outdatedFiles = changes.filter(
+    (change) => change.status !== "unchanged",
+  );
+  if (options.check && outdatedFiles.length) {
+    throw new Error(
+      `${outdatedFiles.length} generated files are out of date, please regenerate them`,
+    );
+  }
+};
+
+const generate = async (
+  actions: Action[],
+  options: GenerateOptions,
+  context?: GenerateContext,
+): Promise<GenerateContext> => {
+  console.log("\nprepare rendering files...");
+
+  const generateContext = context ?? (await prepareContext(options));
+
+  const graphqlFiles = actions.includes("graphql")
+    ? await timed("generated graphql documents", () =>
+        generateGraphQL(generateContext, options),
+      )
+    : [];
+  // generated documents are reused to resolve operation names in templates
+  const documents = graphqlFiles.length
+    ? graphqlFiles
+        .filter((file) => file.path.endsWith(".graphql"))
+        .map((file) => file.content)
+    : undefined;
+
+  if (Boolean(options.dryRun) || Boolean(options.check)) {
+    const templateFiles = actions.includes("template")
+      ? await previewTemplates(generateContext, options, documents)
+      : [];
+    reportChanges([...graphqlFiles, ...templateFiles], options);
+    return generateContext;
+  }
+
+  graphqlFiles.forEach(writeOutputFile);
+  if (graphqlFiles.length) {
+    updateManifest(
+      graphqlFiles.map((file) => ({
+        path: file.path,
+        written: true,
+        kind: "graphql",
+        models: file.models ?? [],
+        role: file.role ?? null,
+      })),
+      { ...options, kinds: ["graphql"] },
+    );
+  }
+
+  if (actions.includes("template")) {
+    await generateTemplates(generateContext, options, documents);
+  }
+
+  console.log("\nOutputs generated!");
+
+  return generateContext;
+};
+
+export default generate;
@@ -0,0 +1,108 @@
+import { FieldNode, Kind, parse } from "graphql";
+import { humanize, pluralize, singularize } from "inflection";
+import { camel, dash, pascal, snake } from "radash";
+import { hasDefinitions } from "./layout";
+import { OPERATION_ROOT_FIELDS } from "./naming";
+import { ModelFieldSchema, ModelOperation, ModelSchemas } from "./schema";
+
+export type ModelDocumentNames = {
+  // names of generated operations keyed by model operations
+  operations: Partial<Record<ModelOperation, string>>;
+  // names of generated fragments on the model type
+  fragments: string[];
+};
+
+export type TemplateHelpers = {
+  pascal: (value: string) => string;
+  camel: (value: string) => string;
+  snake: (value: string) => string;
+  kebab: (value: string) => string;
+  // e.g. created_at -> Created at
+  label: (value: string) => string;
+  plural: (value: string) => string;
+  singular: (value: string) => string;
+  // the full typescript type of the field, e.g. string[] | null
+  tsType: (field: ModelFieldSchema) => string;
+  // the full graphql type of the field, e.g. [String!]!
+  graphqlType: (field: ModelFieldSchema) => string;
+  // the generated operation name of the model operation, null if it isn't generated
+  operationName: (operation: ModelOperation) => string | null;
+  // the generated fragment name of the model, null if it isn't generated
+  fragmentName: () => string | null;
+  fragmentNames: () => string[];
+};
+
+const toTsType = (field: ModelFieldSchema): string => {
+  const innerType = field.array ? `${field.tsType}[]` : field.tsType;
+  return field.nullable ? `${innerType} | null` : innerType;
+};
+
+/**
+ * collect operation and fragment names of models from generated graphql documents,
+ * so helpers return the same names as the generated documents
+ */
+export const collectDocumentNames = (
+  documents: string[],
+  modelSchemas: Record<string, ModelSchemas>,
+): Record<string, ModelDocumentNames> => {
+  const names: Record<string, ModelDocumentNames> = Object.fromEntries(
+    Object.keys(modelSchemas).map((modelName) => [
+      modelName,
+      { operations: {}, fragments: [] },
+    ]),
+  );
+
+  // documents without definitions, e.g. index files, are skipped
+  const definitions = documents
+    .filter(hasDefinitions)
+    .flatMap((document) => parse(document).definitions);
+
+  definitions.forEach((definition) => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      const typeName = definition.typeCondition.name.value;
+      if (typeName in names) {
+        names[typeName].fragments.push(definition.name.value);
+      }
+      return;
+    }
+    if (definition.kind !== Kind.OPERATION_DEFINITION || !definition.name) {
+      return;
+    }
+
+    const operationName = definition.name.value;
+    const rootField = definition.selectionSet.selections.find(
+      (selection): selection is FieldNode => selection.kind === Kind.FIELD,
+    )?.name.value;
+
+    Object.keys(names).forEach((modelName) => {
+      const { operations } = modelSchemas[modelName];
+      const operation = (Object.keys(operations) as ModelOperation[]).find(
+        (key) =>
+          operations[key] === rootField &&
+          OPERATION_ROOT_FIELDS[key][0] === (definition.operation as string),
+      );
+      if (operation && !names[modelName].operations[operation]) {
+        names[modelName].operations[operation] = operationName;
+      }
+    });
+  });
+
+  return names;
+};
+
+export const createTemplateHelpers = (
+  documentNames: ModelDocumentNames = { operations: {}, fragments: [] },
+): TemplateHelpers => ({
+  pascal,
+  camel,
+  snake,
+  kebab: dash,
+  label: (value) => humanize(snake(value)),
+  plural: (value) => pluralize(value),
+  singular: (value) => singularize(value),
+  tsType: toTsType,
+  graphqlType: (field) => field.graphqlType,
+  operationName: (operation) => documentNames.operations[operation] ?? null,
+  fragmentName: () => documentNames.fragments[0] ?? null,
+  fragmentNames: () => documentNames.fragments,
+});
@@ -0,0 +1,191 @@
+import path from "path";
+import { DocumentNode, Kind, parse, visit } from "graphql";
+import { camel, dash, pascal, snake, unique } from "radash";
+import { OutputFile } from "./output";
+
+export type DocumentKind = "query" | "mutation" | "subscription" | "fragment";
+
+// split documents by kind into files, e.g. users.query.graphql, or into folders, e.g. query/users.graphql
+export type SplitKinds = "files" | "folders";
+
+export const SPLIT_KINDS: SplitKinds[] = ["files", "folders"];
+
+export type FileNameValues = {
+  // model names of the file, joined by _
+  model: string;
+  role: string;
+  // operations if documents aren't split by kind
+  kind: DocumentKind | "operations";
+};
+
+export const DEFAULT_FILE_NAME_PATTERN = "{model}";
+
+const CASE_MODIFIERS: Record<string, (value: string) => string> = {
+  pascal,
+  camel,
+  snake,
+  kebab: dash,
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+};
+
+const PLACEHOLDER = /\{(\w+)(?::(\w+))?\}/g;
+
+/**
+ * format a file name pattern with placeholders, e.g. {role}/{model:kebab}.{kind}
+ */
+export const formatFileName = (
+  pattern: string,
+  values: FileNameValues,
+): string =>
+  pattern.replace(
+    PLACEHOLDER,
+    (placeholder, name: string, modifier?: string) => {
+      if (!(name in values)) {
+        throw new Error(
+          `unknown placeholder ${placeholder} in the file name pattern ${pattern}, expected {model}, {role} or {kind}`,
+        );
+      }
+      const value = values[name as keyof FileNameValues];
+      if (!modifier) {
+        return value;
+      }
+      if (!(modifier in CASE_MODIFIERS)) {
+        throw new Error(
+          `unknown case modifier ${modifier} in the file name pattern ${pattern}, expected ${Object.keys(
+            CASE_MODIFIERS,
+          ).join(", ")}`,
+        );
+      }
+      return CASE_MODIFIERS[modifier](value);
+    },
+  );
+
+/**
+ * get the file name pattern of documents, the kind is added
+ * to the pattern if documents are split and the pattern doesn't have it
+ */
+export const getFileNamePattern = (
+  pattern = DEFAULT_FILE_NAME_PATTERN,
+  splitKinds?: SplitKinds,
+): string => {
+  if (!splitKinds || pattern.includes("{kind")) {
+    return pattern;
+  }
+  return splitKinds === "folders" ? `{kind}/${pattern}` : `${pattern}.{kind}`;
+};
+
+// documents without definitions, e.g. index files with #import lines only
+export const hasDefinitions = (content: string): boolean =>
+  Boolean(content.replace(/#.*$/gm, "").trim());
+
+/**
+ * split definitions of a graphql document by kind, keeping their source text
+ */
+export const splitDocumentKinds = (
+  content: string,
+): [DocumentKind, string][] => {
+  if (!content.trim()) {
+    return [];
+  }
+
+  const definitions = parse(content).definitions.reduce<
+    Partial<Record<DocumentKind, string[]>>
+  >((acc, definition) => {
+    const kind =
+      definition.kind === Kind.OPERATION_DEFINITION
+        ? definition.operation
+        : definition.kind === Kind.FRAGMENT_DEFINITION
+          ? "fragment"
+          : null;
+    if (!kind || !definition.loc) {
+      return acc;
+    }
+    const source = content.slice(definition.loc.start, definition.loc.end);
+    return { ...acc, [kind]: [...(acc[kind] ?? []), source] };
+  }, {});
+
+  return (Object.keys(definitions) as DocumentKind[]).map((kind) => [
+    kind,
+    `${definitions[kind]?.join("\n\n") ?? ""}\n`,
+  ]);
+};
+
+// the import path of a generated file relative to another one, without the .ts extension
+export const getImportPath = (fromPath: string, toPath: string): string => {
+  const importPath = path
+    .relative(path.dirname(fromPath), toPath)
+    .replace(/\.ts$/, "")
+    .split(path.sep)
+    .join("/");
+  return importPath.startsWith(".") ? importPath : `./${importPath}`;
+};
+
+const getFragmentNames = (document: DocumentNode): string[] =>
+  document.definitions.flatMap((definition) =>
+    definition.kind === Kind.FRAGMENT_DEFINITION ? [definition.name.value] : [],
+  );
+
+const getFragmentSpreadNames = (document: DocumentNode): string[] => {
+  const names: string[] = [];
+  visit(document, {
+    FragmentSpread: (node) => {
+      names.push(node.name.value);
+    },
+  });
+  return unique(names);
+};
+
+/**
+ * add #import lines of fragments defined in other files,
+ * so documents split by kind can be loaded one by one
+ */
+export const addFragmentImports = (files: OutputFile[]): OutputFile[] => {
+  const documents = files.map((file) => parse(file.content));
+  const fragmentPaths = documents.reduce<Partial<Record<string, string>>>(
+    (acc, document, index) =>
+      getFragmentNames(document).reduce(
+        (paths, name) => ({
+          ...paths,
+          [name]: paths[name] ?? files[index].path,
+        }),
+        acc,
+      ),
+    {},
+  );
+
+  return files.map((file, index) => {
+    const importPaths = unique(
+      getFragmentSpreadNames(documents[index]).flatMap((name) => {
+        const fragmentPath = fragmentPaths[name];
+        return fragmentPath && fragmentPath !== file.path ? [fragmentPath] : [];
+      }),
+    );
+    if (!importPaths.length) {
+      return file;
+    }
+
+    const imports = importPaths.map(
+      (importPath) => `#import "${getImportPath(file.path, importPath)}"`,
+    );
+    return { ...file, content: `${imports.join("\n")}\n\n${file.content}` };
+  });
+};
+
+/**
+ * build the index file importing all generated documents,
+ * graphql files are imported with #import comments, typescript files are re-exported
+ */
+export const buildIndexFile = (
+  indexPath: string,
+  files: OutputFile[],
+): OutputFile => {
+  const lines = files
+    .filter((file) => file.path !== indexPath)
+    .map((file) =>
+      indexPath.endsWith(".ts")
+        ? `export * from "${getImportPath(indexPath, file.path)}";`
+        : `#import "${getImportPath(indexPath, file.path)}"`,
+    );
+  return { path: indexPath, content: `${lines.join("\n")}\n` };
+};
@@ -0,0 +1,95 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import {
+  buildClientSchema,
+  buildSchema,
+  GraphQLSchema,
+  IntrospectionQuery,
+} from "graphql";
+import { loadSchema } from "@graphql-tools/load";
+import { UrlLoader } from "@graphql-tools/url-loader";
+import { GenerateOptions } from "./prompt";
+
+export type SchemaSourceOptions = Pick<
+  GenerateOptions,
+  "url" | "adminSecret" | "role" | "headers" | "method" | "schema"
+>;
+
+const ROLE_PLACEHOLDER = "{role}";
+
+export const isRemoteSource = (source: string): boolean =>
+  /^https?:\/\//i.test(source);
+
+/**
+ * load the graphql schema from the hasura endpoint,
+ * or from a local SDL / introspection json file.
+ * The local file path may contain a {role} placeholder to select per-role snapshots
+ */
+export const loadHasuraSchema = async (
+  options: SchemaSourceOptions,
+): Promise<GraphQLSchema> => {
+  const source = options.schema ?? options.url;
+  if (!source) {
+    throw new Error("the graphql endpoint url or schema file is required");
+  }
+
+  if (!isRemoteSource(source)) {
+    return loadLocalSchema(
+      path.resolve(source.split(ROLE_PLACEHOLDER).join(options.role)),
+    );
+  }
+
+  const role = options.role;
+  const adminSecret = options.adminSecret;
+
+  return loadSchema(source, {
+    loaders: [new UrlLoader()],
+    headers: {
+      Accept: "application/json",
+      ...options.headers,
+      ...(role
+        ? {
+            "x-hasura-role": role,
+          }
+        : null),
+      ...(adminSecret
+        ? {
+            "x-hasura-admin-secret": adminSecret,
+          }
+        : null),
+    },
+    method: options.method ?? "POST",
+  });
+};
+
+const loadLocalSchema = (filePath: string): GraphQLSchema => {
+  if (!existsSync(filePath)) {
+    throw new Error(`schema file ${filePath} does not exist`);
+  }
+
+  const content = readFileSync(filePath, "utf-8");
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".graphql":
+    case ".graphqls":
+    case ".gql":
+      return buildSchema(content);
+    case ".json": {
+      // accept both the raw introspection result and the { data } response
+      const json = JSON.parse(content) as
+        IntrospectionQuery | { data: IntrospectionQuery };
+      const introspection = "data" in json ? json.data : json;
+      if (!("__schema" in introspection)) {
+        throw new Error(
+          `invalid introspection file ${filePath}, __schema is not found`,
+        );
+      }
+      return buildClientSchema(introspection);
+    }
+    default:
+      throw new Error(
+        `unsupported schema file ${filePath}, expected .graphql, .gql or .json`,
+      );
+  }
+};
+
+export default loadHasuraSchema;
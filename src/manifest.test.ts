@@ -0,0 +1,61 @@
+import assert from "assert";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { GeneratedFile, readManifest, updateManifest } from "./manifest";
+
+void describe("updateManifest", () => {
+  const cwd = process.cwd();
+  let dir = cwd;
+
+  // manifest paths are relative to the working directory
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "hasura-codegen-"));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (filePath: string, content: string): string => {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content, "utf-8");
+    return path.resolve(filePath);
+  };
+
+  const toGeneratedFile = (
+    filePath: string,
+    written: boolean,
+  ): GeneratedFile => ({
+    path: filePath,
+    written,
+    kind: "template",
+    models: ["posts"],
+    role: null,
+  });
+
+  void it("prunes files which aren't generated anymore", () => {
+    const filePath = writeFile("pages/posts.txt", "generated");
+    updateManifest([toGeneratedFile(filePath, true)], { kinds: ["template"] });
+    assert.deepStrictEqual(
+      readManifest().files.map((entry) => entry.path),
+      ["pages/posts.txt"],
+    );
+
+    updateManifest([], { kinds: ["template"], prune: true });
+    assert.strictEqual(existsSync(filePath), false);
+    assert.deepStrictEqual(readManifest().files, []);
+  });
+
+  void it("doesn't record or prune skipped files which aren't generated before", () => {
+    const filePath = writeFile("pages/posts.txt", "hand-written");
+    updateManifest([toGeneratedFile(filePath, false)], { kinds: ["template"] });
+    assert.deepStrictEqual(readManifest().files, []);
+
+    updateManifest([], { kinds: ["template"], prune: true });
+    assert.strictEqual(existsSync(filePath), true);
+  });
+});
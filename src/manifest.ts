@@ -0,0 +1,169 @@
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { WrittenFile, writeOutputFile } from "./output";
+
+export type ManifestFileKind = "graphql" | "template";
+
+export type ManifestEntry = {
+  // the file path relative to the working directory
+  path: string;
+  // the sha256 hash of the generated content
+  hash: string;
+  kind: ManifestFileKind;
+  models: string[];
+  role: string | null;
+  // the config target, null if the config doesn't have targets
+  target: string | null;
+};
+
+export type Manifest = {
+  version: number;
+  files: ManifestEntry[];
+};
+
+export type GeneratedFile = WrittenFile & {
+  kind: ManifestFileKind;
+  models: string[];
+  role: string | null;
+};
+
+export type UpdateManifestOptions = {
+  manifestPath?: string;
+  target?: string;
+  // kinds of files generated in this run, files of other kinds aren't stale
+  kinds: ManifestFileKind[];
+  // delete files which aren't generated anymore
+  prune?: boolean;
+  // delete stale files even if they're edited since generation
+  force?: boolean;
+};
+
+const MANIFEST_VERSION = 1;
+
+export const DEFAULT_MANIFEST_PATH = "hasura-codegen.manifest.json";
+
+const hashContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+const hashFile = (filePath: string): string =>
+  hashContent(readFileSync(filePath, "utf-8"));
+
+const toManifestPath = (filePath: string): string =>
+  path.relative(process.cwd(), filePath).split(path.sep).join("/");
+
+export const readManifest = (
+  manifestPath = DEFAULT_MANIFEST_PATH,
+): Manifest => {
+  const filePath = path.resolve(manifestPath);
+  if (!existsSync(filePath)) {
+    return { version: MANIFEST_VERSION, files: [] };
+  }
+
+  const manifest = JSON.parse(readFileSync(filePath, "utf-8")) as Manifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(
+      `unsupported manifest version ${manifest.version} of ${manifestPath}`,
+    );
+  }
+  return manifest;
+};
+
+/**
+ * delete stale files, and return entries of files which are kept.
+ * Files edited since generation are kept unless forced
+ */
+const pruneFiles = (
+  entries: ManifestEntry[],
+  force: boolean,
+): ManifestEntry[] =>
+  entries.filter((entry) => {
+    const filePath = path.resolve(entry.path);
+    if (!existsSync(filePath)) {
+      return false;
+    }
+    if (!force && hashFile(filePath) !== entry.hash) {
+      console.warn(
+        `WARNING: ${entry.path} is edited since generation and isn't removed, run with --force to remove it`,
+      );
+      return true;
+    }
+
+    unlinkSync(filePath);
+    console.log(`     removed: ${entry.path}`);
+    return false;
+  });
+
+/**
+ * record generated files in the manifest with their content hashes.
+ * Files of the same target and kinds which aren't generated anymore are stale,
+ * they're deleted if prune is enabled, or kept in the manifest to be pruned later
+ */
+export const updateManifest = (
+  files: GeneratedFile[],
+  options: UpdateManifestOptions,
+) => {
+  const manifestPath = options.manifestPath ?? DEFAULT_MANIFEST_PATH;
+  const manifest = readManifest(manifestPath);
+  const target = options.target ?? null;
+  const previousEntries = new Map(
+    manifest.files.map((entry) => [entry.path, entry]),
+  );
+
+  const generatedEntries = files
+    .filter((file) => existsSync(file.path))
+    .flatMap<ManifestEntry>((file) => {
+      const filePath = toManifestPath(file.path);
+      const previousEntry = previousEntries.get(filePath);
+      // skipped files which aren't recorded before aren't generated, e.g. hand-written files
+      if (!file.written && !previousEntry) {
+        return [];
+      }
+      return [
+        {
+          path: filePath,
+          // kept files may be edited, so the hash of the generated content is kept
+          hash:
+            !file.written && previousEntry
+              ? previousEntry.hash
+              : hashFile(file.path),
+          kind: file.kind,
+          models: file.models,
+          role: file.role,
+          target,
+        },
+      ];
+    });
+  const generatedPaths = new Set(generatedEntries.map((entry) => entry.path));
+
+  const isStale = (entry: ManifestEntry) =>
+    entry.target === target &&
+    options.kinds.includes(entry.kind) &&
+    !generatedPaths.has(entry.path);
+  const staleEntries = manifest.files.filter(isStale);
+  const otherEntries = manifest.files.filter(
+    (entry) => !isStale(entry) && !generatedPaths.has(entry.path),
+  );
+
+  const keptEntries = options.prune
+    ? pruneFiles(staleEntries, Boolean(options.force))
+    : staleEntries.filter((entry) => existsSync(path.resolve(entry.path)));
+  if (!options.prune && keptEntries.length) {
+    console.warn(
+      `WARNING: files generated before aren't generated anymore, run with --prune to remove them:\n  ${keptEntries
+        .map((entry) => entry.path)
+        .join("\n  ")}`,
+    );
+  }
+
+  const nextManifest: Manifest = {
+    version: MANIFEST_VERSION,
+    files: [...otherEntries, ...keptEntries, ...generatedEntries].sort((a, b) =>
+      a.path.localeCompare(b.path),
+    ),
+  };
+  writeOutputFile({
+    path: path.resolve(manifestPath),
+    content: `${JSON.stringify(nextManifest, null, 2)}\n`,
+  });
+};
@@ -0,0 +1,178 @@
+import {
+  getNamedType,
+  GraphQLSchema,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  GraphQLOutputType,
+} from "graphql";
+import { unique } from "radash";
+import { resolveModelNames, RootFieldNames } from "./naming";
+import { ModelOverrides } from "./prompt";
+import type { ModelOperations } from "./schema";
+
+const PATTERN_WILDCARD = /[*?]/;
+
+const isListOutputType = (gqlType: GraphQLOutputType): boolean =>
+  isNonNullType(gqlType)
+    ? isListOutputType(gqlType.ofType)
+    : isListType(gqlType);
+
+// a model is queryable if it has a select root field, and a _by_pk or _aggregate root field
+const isQueryableModel = (operations: ModelOperations): boolean =>
+  operations.select !== null &&
+  (operations.select_by_pk !== null || operations.select_aggregate !== null);
+
+const hasMutations = (operations: ModelOperations): boolean =>
+  [
+    operations.insert,
+    operations.insert_one,
+    operations.update,
+    operations.update_by_pk,
+    operations.update_many,
+    operations.delete,
+    operations.delete_by_pk,
+  ].some((name) => name !== null);
+
+/**
+ * find tracked tables and views from query root fields.
+ * A type is a model if a root field returns a list of it,
+ * and it has a _by_pk or _aggregate root field whatever their names are
+ */
+export const discoverModels = (
+  schema: GraphQLSchema,
+  rootFieldNames?: RootFieldNames,
+): string[] => {
+  const queryFields = schema.getQueryType()?.getFields() ?? {};
+
+  const models = Object.values(queryFields).reduce<string[]>((acc, field) => {
+    const namedType = getNamedType(field.type);
+    if (!isListOutputType(field.type) || !isObjectType(namedType)) {
+      return acc;
+    }
+
+    const { operations } = resolveModelNames(
+      schema,
+      namedType.name,
+      rootFieldNames,
+    );
+    return isQueryableModel(operations) ? [...acc, namedType.name] : acc;
+  }, []);
+
+  return unique(models).sort();
+};
+
+const patternToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".")}$`,
+  );
+
+export const isModelPattern = (name: string): boolean =>
+  PATTERN_WILDCARD.test(name);
+
+export const matchModelPattern = (pattern: string, modelName: string) =>
+  patternToRegExp(pattern).test(modelName);
+
+// write-only roles don't have the model type, but have its input types
+const hasModelTypes = (schema: GraphQLSchema, name: string): boolean => {
+  const { modelType, insertInputType, setInputType, boolExpType } =
+    resolveModelNames(schema, name);
+  return Boolean(modelType ?? insertInputType ?? setInputType ?? boolExpType);
+};
+
+/**
+ * expand model names and glob patterns, e.g. *, audit_*, against discovered models,
+ * then remove excluded names and patterns.
+ * Plain names must exist in the schema
+ */
+export const matchModels = (
+  schemas: GraphQLSchema[],
+  availableModels: string[],
+  patterns: string[],
+  excludePatterns: string[] = [],
+): string[] => {
+  const unknownModels = patterns.filter(
+    (name) =>
+      !isModelPattern(name) &&
+      !availableModels.includes(name) &&
+      !schemas.some((schema) => hasModelTypes(schema, name)),
+  );
+
+  if (unknownModels.length) {
+    throw new Error(
+      `models ${unknownModels.join(
+        ", ",
+      )} don't exist, or maybe the role doesn't have any permission`,
+    );
+  }
+
+  const models = patterns.flatMap((name) =>
+    isModelPattern(name)
+      ? availableModels.filter((model) => matchModelPattern(name, model))
+      : [name],
+  );
+
+  return unique(models).filter(
+    (model) =>
+      !excludePatterns.some((pattern) => matchModelPattern(pattern, model)),
+  );
+};
+
+/**
+ * filter models which the role can query or mutate with root fields.
+ * Model types may exist only because relationships reach them, then they aren't visible
+ */
+export const filterRoleModels = (
+  schema: GraphQLSchema,
+  models: string[],
+  rootFieldNames?: RootFieldNames,
+): string[] =>
+  models.filter((model) => {
+    const { operations } = resolveModelNames(schema, model, rootFieldNames);
+    return isQueryableModel(operations) || hasMutations(operations);
+  });
+
+/**
+ * find the schema of the first role which can query the model,
+ * or the first role which can mutate it
+ */
+export const findModelSchema = (
+  schemas: GraphQLSchema[],
+  model: string,
+  rootFieldNames?: RootFieldNames,
+): GraphQLSchema | undefined => {
+  const roleOperations = schemas.map(
+    (schema) => resolveModelNames(schema, model, rootFieldNames).operations,
+  );
+  const queryableIndex = roleOperations.findIndex(isQueryableModel);
+  const index =
+    queryableIndex >= 0
+      ? queryableIndex
+      : roleOperations.findIndex(hasMutations);
+  return index >= 0 ? schemas[index] : undefined;
+};
+
+/**
+ * merge overrides of keys matching the model name over the global options
+ */
+export const getModelOptions = <T extends ModelOverrides>(
+  options: T,
+  modelOptions: Record<string, ModelOverrides> | undefined,
+  modelName: string,
+): T =>
+  Object.keys(modelOptions ?? {})
+    .filter((pattern) => matchModelPattern(pattern, modelName))
+    .reduce<T>(
+      (acc, pattern) => ({
+        ...acc,
+        ...modelOptions![pattern],
+        templateArguments: {
+          ...acc.templateArguments,
+          ...modelOptions![pattern].templateArguments,
+        },
+      }),
+      options,
+    );
@@ -0,0 +1,203 @@
+import assert from "assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { buildSchema } from "graphql";
+import { describe, it } from "node:test";
+import { loadRootFieldNames, resolveModelNames } from "./naming";
+
+const HASURA_DEFAULT_SDL = `
+  type users { id: Int! name: String nodes: Int }
+  type users_aggregate_fields { count: Int! }
+  type users_aggregate { aggregate: users_aggregate_fields nodes: [users!]! }
+  type users_mutation_response { affected_rows: Int! returning: [users!]! }
+  input users_bool_exp { id: Int_comparison_exp }
+  input Int_comparison_exp { _eq: Int }
+  input users_insert_input { id: Int name: String }
+  input users_set_input { name: String }
+  input users_inc_input { id: Int }
+  input users_pk_columns_input { id: Int! }
+  input users_stream_cursor_input { initial_value: users_set_input }
+  input users_updates { where: users_bool_exp! _set: users_set_input }
+  type query_root {
+    users(where: users_bool_exp): [users!]!
+    users_by_pk(id: Int!): users
+    users_aggregate(where: users_bool_exp): users_aggregate!
+  }
+  type mutation_root {
+    insert_users(objects: [users_insert_input!]!): users_mutation_response
+    insert_users_one(object: users_insert_input!): users
+    update_users(where: users_bool_exp!, _set: users_set_input, _inc: users_inc_input): users_mutation_response
+    update_users_by_pk(pk_columns: users_pk_columns_input!, _set: users_set_input): users
+    update_users_many(updates: [users_updates!]!): [users_mutation_response]
+    delete_users(where: users_bool_exp!): users_mutation_response
+    delete_users_by_pk(id: Int!): users
+  }
+  type subscription_root {
+    users(where: users_bool_exp): [users!]!
+    users_stream(batch_size: Int!, cursor: [users_stream_cursor_input]!): [users!]!
+  }
+  schema { query: query_root mutation: mutation_root subscription: subscription_root }
+`;
+
+const GRAPHQL_DEFAULT_SDL = `
+  type Users { id: Int! name: String }
+  type UsersAggregateFields { count: Int! }
+  type UsersAggregate { aggregate: UsersAggregateFields nodes: [Users!]! }
+  type UsersMutationResponse { affectedRows: Int! returning: [Users!]! }
+  input UsersBoolExp { id: IntComparisonExp }
+  input IntComparisonExp { _eq: Int }
+  input UsersInsertInput { id: Int name: String }
+  input UsersSetInput { name: String }
+  input UsersPkColumnsInput { id: Int! }
+  type query_root {
+    users(where: UsersBoolExp): [Users!]!
+    usersByPk(id: Int!): Users
+    usersAggregate(where: UsersBoolExp): UsersAggregate!
+  }
+  type mutation_root {
+    insertUsers(objects: [UsersInsertInput!]!): UsersMutationResponse
+    insertUsersOne(object: UsersInsertInput!): Users
+    updateUsersByPk(pkColumns: UsersPkColumnsInput!, _set: UsersSetInput): Users
+    deleteUsers(where: UsersBoolExp!): UsersMutationResponse
+  }
+  schema { query: query_root mutation: mutation_root }
+`;
+
+void describe("resolveModelNames", () => {
+  void it("resolves root fields of the hasura default naming convention", () => {
+    const {
+      modelType,
+      operations,
+      insertInputType,
+      setInputType,
+      pkInputType,
+    } = resolveModelNames(buildSchema(HASURA_DEFAULT_SDL), "users");
+
+    assert.strictEqual(modelType?.name, "users");
+    assert.deepStrictEqual(operations, {
+      select: "users",
+      select_by_pk: "users_by_pk",
+      select_aggregate: "users_aggregate",
+      insert: "insert_users",
+      insert_one: "insert_users_one",
+      update: "update_users",
+      update_by_pk: "update_users_by_pk",
+      update_many: "update_users_many",
+      delete: "delete_users",
+      delete_by_pk: "delete_users_by_pk",
+      subscription: "users",
+      subscription_stream: "users_stream",
+    });
+    assert.strictEqual(insertInputType?.name, "users_insert_input");
+    assert.strictEqual(setInputType?.name, "users_set_input");
+    assert.strictEqual(pkInputType?.name, "users_pk_columns_input");
+  });
+
+  void it("resolves root fields of the graphql-default naming convention", () => {
+    const { modelType, operations, insertInputType, pkInputType } =
+      resolveModelNames(buildSchema(GRAPHQL_DEFAULT_SDL), "users");
+
+    assert.strictEqual(modelType?.name, "Users");
+    assert.strictEqual(operations.select, "users");
+    assert.strictEqual(operations.select_by_pk, "usersByPk");
+    assert.strictEqual(operations.select_aggregate, "usersAggregate");
+    assert.strictEqual(operations.insert, "insertUsers");
+    assert.strictEqual(operations.insert_one, "insertUsersOne");
+    assert.strictEqual(operations.update_by_pk, "updateUsersByPk");
+    assert.strictEqual(operations.delete, "deleteUsers");
+    assert.strictEqual(operations.update, null);
+    assert.strictEqual(insertInputType?.name, "UsersInsertInput");
+    assert.strictEqual(pkInputType?.name, "UsersPkColumnsInput");
+  });
+
+  void it("prefers custom root fields of the metadata", () => {
+    const schema = buildSchema(`
+      type accounts { id: Int! }
+      type accounts_aggregate_fields { count: Int! }
+      type accounts_aggregate { aggregate: accounts_aggregate_fields nodes: [accounts!]! }
+      type query_root {
+        recentAccounts: [accounts!]!
+        listAccounts: [accounts!]!
+        account(id: Int!): accounts
+        accountsStats: accounts_aggregate!
+      }
+      schema { query: query_root }
+    `);
+    const dir = mkdtempSync(path.join(tmpdir(), "hasura-codegen-"));
+    const metadataPath = path.join(dir, "metadata.json");
+    writeFileSync(
+      metadataPath,
+      JSON.stringify({
+        metadata: {
+          sources: [
+            {
+              tables: [
+                {
+                  table: { schema: "public", name: "accounts" },
+                  configuration: {
+                    custom_root_fields: {
+                      select: "listAccounts",
+                      select_by_pk: { name: "account" },
+                      select_aggregate: "accountsStats",
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      }),
+    );
+
+    try {
+      const rootFieldNames = loadRootFieldNames(metadataPath);
+      assert.deepStrictEqual(rootFieldNames, {
+        accounts: {
+          select: "listAccounts",
+          select_by_pk: "account",
+          select_aggregate: "accountsStats",
+          subscription: "listAccounts",
+        },
+      });
+
+      const { operations } = resolveModelNames(
+        schema,
+        "accounts",
+        rootFieldNames,
+      );
+      assert.strictEqual(operations.select, "listAccounts");
+      assert.strictEqual(operations.select_by_pk, "account");
+      assert.strictEqual(operations.select_aggregate, "accountsStats");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  void it("matches mutations of write-only roles by their input types", () => {
+    const schema = buildSchema(`
+      type query_root { _placeholder: Int }
+      input contact_bool_exp { email: String_comparison_exp }
+      input String_comparison_exp { _eq: String }
+      input contact_insert_input { email: String }
+      input contact_set_input { email: String }
+      type contact_mutation_response { affected_rows: Int! }
+      type mutation_root {
+        insert_contact(objects: [contact_insert_input!]!): contact_mutation_response
+        update_contact(where: contact_bool_exp!, _set: contact_set_input): contact_mutation_response
+        delete_contact(where: contact_bool_exp!): contact_mutation_response
+      }
+      schema { query: query_root mutation: mutation_root }
+    `);
+
+    const { modelType, operations, insertInputType, setInputType } =
+      resolveModelNames(schema, "contact");
+    assert.strictEqual(modelType, null);
+    assert.strictEqual(operations.insert, "insert_contact");
+    assert.strictEqual(operations.update, "update_contact");
+    assert.strictEqual(operations.delete, "delete_contact");
+    assert.strictEqual(operations.select, null);
+    assert.strictEqual(insertInputType?.name, "contact_insert_input");
+    assert.strictEqual(setInputType?.name, "contact_set_input");
+  });
+});
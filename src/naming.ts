@@ -0,0 +1,456 @@
+import { readFileSync } from "fs";
+import {
+  getNamedType,
+  GraphQLField,
+  GraphQLFieldMap,
+  GraphQLInputObjectType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+} from "graphql";
+import { camel, pascal, snake, unique } from "radash";
+import { parse as parseYaml } from "yaml";
+import type { ModelOperation, ModelOperations } from "./schema";
+
+export type OperationRoot = "query" | "mutation" | "subscription";
+
+// root field names of models keyed by model operations, e.g. from hasura metadata
+export type RootFieldNames = Partial<
+  Record<string, Partial<Record<ModelOperation, string>>>
+>;
+
+export type ModelNames = {
+  modelType: GraphQLObjectType | null;
+  operations: ModelOperations;
+  insertInputType: GraphQLInputObjectType | null;
+  setInputType: GraphQLInputObjectType | null;
+  pkInputType: GraphQLInputObjectType | null;
+  boolExpType: GraphQLInputObjectType | null;
+};
+
+type RootField = GraphQLField<unknown, unknown>;
+
+const unwrapNonNull = (gqlType: GraphQLOutputType): GraphQLOutputType =>
+  isNonNullType(gqlType) ? gqlType.ofType : gqlType;
+
+const isModelType = (
+  gqlType: GraphQLOutputType,
+  modelType: GraphQLObjectType,
+) => unwrapNonNull(gqlType) === modelType;
+
+const isModelListType = (
+  gqlType: GraphQLOutputType,
+  modelType: GraphQLObjectType,
+): boolean => {
+  const nullableType = unwrapNonNull(gqlType);
+  return (
+    isListType(nullableType) && isModelType(nullableType.ofType, modelType)
+  );
+};
+
+// object types wrapping the model in a list field, e.g. returning of mutation responses
+const isWrapperType = (
+  gqlType: GraphQLOutputType,
+  fieldName: string,
+  modelType: GraphQLObjectType,
+): boolean => {
+  const nullableType = unwrapNonNull(gqlType);
+  const field = isObjectType(nullableType)
+    ? nullableType.getFields()[fieldName]
+    : undefined;
+  return Boolean(field && isModelListType(field.type, modelType));
+};
+
+// argument names are snake_case by default, and camelCase with graphql-default
+export const findArgument = <T extends { name: string }>(
+  args: readonly T[],
+  name: string,
+): T | undefined =>
+  args.find((arg) => arg.name === name || arg.name === camel(name));
+
+const hasArg = (field: RootField, name: string): boolean =>
+  Boolean(findArgument(field.args, name));
+
+// update operations have _set, _inc and other _ prefixed arguments
+const hasUpdateArgs = (field: RootField): boolean =>
+  field.args.some((arg) => arg.name.startsWith("_"));
+
+const hasScalarArgsOnly = (field: RootField): boolean =>
+  field.args.length > 0 &&
+  field.args.every((arg) => !isInputObjectType(getNamedType(arg.type)));
+
+// the conventional root field name of model operations and their roots
+export const OPERATION_ROOT_FIELDS: Record<
+  ModelOperation,
+  [OperationRoot, (name: string) => string]
+> = {
+  select: ["query", (name) => name],
+  select_by_pk: ["query", (name) => `${name}_by_pk`],
+  select_aggregate: ["query", (name) => `${name}_aggregate`],
+  insert: ["mutation", (name) => `insert_${name}`],
+  insert_one: ["mutation", (name) => `insert_${name}_one`],
+  update: ["mutation", (name) => `update_${name}`],
+  update_by_pk: ["mutation", (name) => `update_${name}_by_pk`],
+  update_many: ["mutation", (name) => `update_${name}_many`],
+  delete: ["mutation", (name) => `delete_${name}`],
+  delete_by_pk: ["mutation", (name) => `delete_${name}_by_pk`],
+  subscription: ["subscription", (name) => name],
+  subscription_stream: ["subscription", (name) => `${name}_stream`],
+};
+
+// match root fields of model operations by their return types and arguments.
+// Tracked functions returning the model have the args argument
+const OPERATION_MATCHERS: Record<
+  ModelOperation,
+  (field: RootField, modelType: GraphQLObjectType) => boolean
+> = {
+  select: (field, modelType) =>
+    isModelListType(field.type, modelType) && !hasArg(field, "args"),
+  select_by_pk: (field, modelType) =>
+    isModelType(field.type, modelType) && hasScalarArgsOnly(field),
+  select_aggregate: (field, modelType) =>
+    isWrapperType(field.type, "nodes", modelType) && !hasArg(field, "args"),
+  insert: (field, modelType) =>
+    isWrapperType(field.type, "returning", modelType) &&
+    hasArg(field, "objects"),
+  insert_one: (field, modelType) =>
+    isModelType(field.type, modelType) && hasArg(field, "object"),
+  update: (field, modelType) =>
+    isWrapperType(field.type, "returning", modelType) &&
+    hasArg(field, "where") &&
+    hasUpdateArgs(field),
+  update_by_pk: (field, modelType) =>
+    isModelType(field.type, modelType) && hasArg(field, "pk_columns"),
+  update_many: (field, modelType) => {
+    const nullableType = unwrapNonNull(field.type);
+    return (
+      isListType(nullableType) &&
+      isWrapperType(nullableType.ofType, "returning", modelType) &&
+      hasArg(field, "updates")
+    );
+  },
+  delete: (field, modelType) =>
+    isWrapperType(field.type, "returning", modelType) &&
+    hasArg(field, "where") &&
+    !hasUpdateArgs(field),
+  delete_by_pk: (field, modelType) =>
+    isModelType(field.type, modelType) && hasScalarArgsOnly(field),
+  subscription: (field, modelType) =>
+    isModelListType(field.type, modelType) &&
+    !hasArg(field, "args") &&
+    !hasArg(field, "cursor"),
+  subscription_stream: (field, modelType) =>
+    isModelListType(field.type, modelType) && hasArg(field, "cursor"),
+};
+
+export const getRootFields = (schema: GraphQLSchema, root: OperationRoot) => {
+  switch (root) {
+    case "query":
+      return schema.getQueryType()?.getFields() ?? {};
+    case "mutation":
+      return schema.getMutationType()?.getFields() ?? {};
+    case "subscription":
+      return schema.getSubscriptionType()?.getFields() ?? {};
+  }
+};
+
+// root fields grouped by the model type they return, built once per schema
+const rootFieldIndexes = new WeakMap<
+  GraphQLSchema,
+  Record<OperationRoot, Partial<Record<string, RootField[]>>>
+>();
+
+// mutation responses wrap the model in returning, and aggregates wrap it in nodes.
+// Wrappers are detected by their shape, models may have returning or nodes columns
+const getReturnedTypeName = (gqlType: GraphQLOutputType): string => {
+  const namedType = getNamedType(gqlType);
+  if (!isObjectType(namedType)) {
+    return namedType.name;
+  }
+
+  const fields: Partial<GraphQLFieldMap<unknown, unknown>> =
+    namedType.getFields();
+  const isMutationResponse = Boolean(
+    fields.affected_rows ?? fields.affectedRows,
+  );
+  const wrappedField = isMutationResponse
+    ? fields.returning
+    : fields.aggregate
+      ? fields.nodes
+      : undefined;
+  return getNamedType(wrappedField?.type ?? namedType).name;
+};
+
+const getRootFieldIndex = (schema: GraphQLSchema) => {
+  const cachedIndex = rootFieldIndexes.get(schema);
+  if (cachedIndex) {
+    return cachedIndex;
+  }
+
+  const buildIndex = (root: OperationRoot) =>
+    Object.values(getRootFields(schema, root)).reduce<
+      Partial<Record<string, RootField[]>>
+    >((acc, field) => {
+      const typeName = getReturnedTypeName(field.type);
+      return { ...acc, [typeName]: [...(acc[typeName] ?? []), field] };
+    }, {});
+
+  const index = {
+    query: buildIndex("query"),
+    mutation: buildIndex("mutation"),
+    subscription: buildIndex("subscription"),
+  };
+  rootFieldIndexes.set(schema, index);
+  return index;
+};
+
+const findNamedType = <T extends GraphQLNamedType>(
+  schema: GraphQLSchema,
+  names: string[],
+  predicate: (gqlType: unknown) => gqlType is T,
+): T | null => {
+  const gqlType = unique(names)
+    .map((name) => schema.getType(name))
+    .find(predicate);
+  return gqlType ?? null;
+};
+
+const getArgInputType = (
+  field: RootField | null,
+  argName: string,
+): GraphQLInputObjectType | null => {
+  const arg = field && findArgument(field.args, argName);
+  const argType = arg && getNamedType(arg.type);
+  return isInputObjectType(argType) ? argType : null;
+};
+
+type ModelInputTypes = Pick<
+  ModelNames,
+  "insertInputType" | "setInputType" | "boolExpType"
+>;
+
+const hasArgInputType = (
+  field: RootField,
+  argName: string,
+  inputType: GraphQLInputObjectType | null,
+): boolean =>
+  inputType !== null && getArgInputType(field, argName) === inputType;
+
+// roles which can't select the model don't have its type, and mutation responses
+// only have affected_rows, so mutations are matched by their input types instead
+const INPUT_MATCHERS: Partial<
+  Record<
+    ModelOperation,
+    (field: RootField, inputTypes: ModelInputTypes) => boolean
+  >
+> = {
+  insert: (field, { insertInputType }) =>
+    hasArgInputType(field, "objects", insertInputType),
+  update: (field, { boolExpType }) =>
+    hasArgInputType(field, "where", boolExpType) && hasUpdateArgs(field),
+  delete: (field, { boolExpType }) =>
+    hasArgInputType(field, "where", boolExpType) && !hasUpdateArgs(field),
+};
+
+/**
+ * resolve the model type, root fields and input types of the model.
+ * Root fields are matched by their return types, preferring names of the mapping,
+ * then conventional names of the default and graphql-default naming conventions.
+ * Mutations of models without their types are matched by input types
+ */
+export const resolveModelNames = (
+  schema: GraphQLSchema,
+  modelName: string,
+  rootFieldNames: RootFieldNames = {},
+): ModelNames => {
+  const fieldName = snake(modelName);
+  const modelType = findNamedType(
+    schema,
+    [modelName, fieldName, camel(modelName), pascal(modelName)],
+    isObjectType,
+  );
+
+  const typeNames = (suffix: string) => [
+    `${fieldName}_${suffix}`,
+    camel(`${fieldName}_${suffix}`),
+    `${modelType?.name ?? pascal(modelName)}${pascal(suffix)}`,
+  ];
+  const inputTypes: ModelInputTypes = {
+    insertInputType: findNamedType(
+      schema,
+      typeNames("insert_input"),
+      isInputObjectType,
+    ),
+    setInputType: findNamedType(
+      schema,
+      typeNames("set_input"),
+      isInputObjectType,
+    ),
+    boolExpType: findNamedType(
+      schema,
+      typeNames("bool_exp"),
+      isInputObjectType,
+    ),
+  };
+
+  const index = getRootFieldIndex(schema);
+  const findCandidates = (operation: ModelOperation): RootField[] => {
+    const [root] = OPERATION_ROOT_FIELDS[operation];
+    if (modelType) {
+      return (index[root][modelType.name] ?? []).filter((field) =>
+        OPERATION_MATCHERS[operation](field, modelType),
+      );
+    }
+    const inputMatcher = INPUT_MATCHERS[operation];
+    return inputMatcher
+      ? Object.values(getRootFields(schema, root)).filter((field) =>
+          inputMatcher(field, inputTypes),
+        )
+      : [];
+  };
+
+  const operationFields = Object.fromEntries(
+    (Object.keys(OPERATION_ROOT_FIELDS) as ModelOperation[]).map(
+      (operation) => {
+        const [, getName] = OPERATION_ROOT_FIELDS[operation];
+        const candidates = findCandidates(operation);
+        const preferredNames = [
+          (rootFieldNames[modelType?.name ?? modelName] ??
+            rootFieldNames[modelName])?.[operation],
+          getName(fieldName),
+          camel(getName(fieldName)),
+        ];
+        const field =
+          preferredNames
+            .map((name) => candidates.find((item) => item.name === name))
+            .find(Boolean) ?? (candidates.length ? candidates[0] : null);
+
+        return [operation, field];
+      },
+    ),
+  ) as Record<ModelOperation, RootField | null>;
+
+  return {
+    modelType,
+    operations: Object.fromEntries(
+      Object.entries(operationFields).map(([operation, field]) => [
+        operation,
+        field?.name ?? null,
+      ]),
+    ) as ModelOperations,
+    insertInputType:
+      getArgInputType(operationFields.insert, "objects") ??
+      getArgInputType(operationFields.insert_one, "object") ??
+      inputTypes.insertInputType,
+    setInputType:
+      getArgInputType(operationFields.update, "_set") ??
+      getArgInputType(operationFields.update_by_pk, "_set") ??
+      inputTypes.setInputType,
+    pkInputType:
+      getArgInputType(operationFields.update_by_pk, "pk_columns") ??
+      findNamedType(schema, typeNames("pk_columns_input"), isInputObjectType),
+    boolExpType:
+      getArgInputType(operationFields.select, "where") ??
+      getArgInputType(operationFields.delete, "where") ??
+      inputTypes.boolExpType,
+  };
+};
+
+type MetadataRootField = string | { name?: string | null } | null;
+
+type HasuraMetadata = {
+  // the export_metadata api wraps metadata with the resource version
+  metadata?: HasuraMetadata;
+  sources?: {
+    customization?: {
+      naming_convention?: string;
+      root_fields?: { prefix?: string; suffix?: string };
+      type_names?: { prefix?: string; suffix?: string };
+    };
+    tables?: {
+      table: { schema?: string; name: string };
+      configuration?: {
+        custom_name?: string;
+        custom_root_fields?: Record<string, MetadataRootField>;
+      };
+    }[];
+  }[];
+};
+
+// custom root field keys of hasura metadata keyed by model operations
+const METADATA_ROOT_FIELDS: Partial<Record<ModelOperation, string>> = {
+  select: "select",
+  select_by_pk: "select_by_pk",
+  select_aggregate: "select_aggregate",
+  insert: "insert",
+  insert_one: "insert_one",
+  update: "update",
+  update_by_pk: "update_by_pk",
+  update_many: "update_many",
+  delete: "delete",
+  delete_by_pk: "delete_by_pk",
+  subscription: "select",
+  subscription_stream: "select_stream",
+};
+
+/**
+ * read custom root field names of tables from a hasura metadata export file,
+ * e.g. the output of hasura metadata export -o json
+ */
+export const loadRootFieldNames = (metadataPath: string): RootFieldNames => {
+  const content = parseYaml(
+    readFileSync(metadataPath, "utf-8"),
+  ) as HasuraMetadata | null;
+  const metadata = content?.metadata ?? content;
+
+  return (metadata?.sources ?? []).reduce<RootFieldNames>((acc, source) => {
+    const { customization } = source;
+    const isGraphQLDefault =
+      customization?.naming_convention === "graphql-default";
+
+    return (source.tables ?? []).reduce(
+      (tableAcc, { table, configuration }) => {
+        const customRootFields = configuration?.custom_root_fields;
+        if (!customRootFields) {
+          return tableAcc;
+        }
+
+        const baseName =
+          configuration.custom_name ??
+          (table.schema && table.schema !== "public"
+            ? `${table.schema}_${table.name}`
+            : table.name);
+        const typeName = `${customization?.type_names?.prefix ?? ""}${
+          isGraphQLDefault ? pascal(baseName) : baseName
+        }${customization?.type_names?.suffix ?? ""}`;
+
+        const names = Object.fromEntries(
+          (Object.keys(METADATA_ROOT_FIELDS) as ModelOperation[])
+            .map((operation) => {
+              const rootField =
+                customRootFields[METADATA_ROOT_FIELDS[operation] ?? ""];
+              const name =
+                typeof rootField === "string" ? rootField : rootField?.name;
+              return [
+                operation,
+                name
+                  ? `${customization?.root_fields?.prefix ?? ""}${name}${
+                      customization?.root_fields?.suffix ?? ""
+                    }`
+                  : null,
+              ];
+            })
+            .filter(([, name]) => name),
+        ) as Partial<Record<ModelOperation, string>>;
+
+        return { ...tableAcc, [typeName]: names };
+      },
+      acc,
+    );
+  }, {});
+};
@@ -0,0 +1,79 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { createTwoFilesPatch } from "diff";
+
+export type OutputFile = {
+  path: string;
+  content: string;
+  // models and the role the file is generated for, recorded in the manifest
+  models?: string[];
+  role?: string;
+};
+
+export type WrittenFile = {
+  path: string;
+  // false if an existing file is kept, e.g. templates with unless_exists
+  written: boolean;
+};
+
+export type FileChangeStatus = "created" | "changed" | "unchanged";
+
+export type FileChange = OutputFile & {
+  status: FileChangeStatus;
+  // the unified diff between the file on disk and the generated content
+  diff: string;
+};
+
+export const writeOutputFile = (file: OutputFile) => {
+  mkdirSync(path.dirname(file.path), { recursive: true });
+  writeFileSync(file.path, file.content, "utf8");
+};
+
+/**
+ * compare generated files with files on disk without writing them
+ */
+export const diffOutputFiles = (files: OutputFile[]): FileChange[] =>
+  files.map((file) => {
+    const current = existsSync(file.path)
+      ? readFileSync(file.path, "utf-8")
+      : null;
+    const relativePath = path.relative(process.cwd(), file.path);
+
+    return {
+      ...file,
+      status:
+        current === null
+          ? "created"
+          : current === file.content
+            ? "unchanged"
+            : "changed",
+      diff:
+        current === file.content
+          ? ""
+          : createTwoFilesPatch(
+              current === null ? "/dev/null" : `a/${relativePath}`,
+              `b/${relativePath}`,
+              current ?? "",
+              file.content,
+            ),
+    };
+  });
+
+export const printFileChanges = (changes: FileChange[], showDiff: boolean) => {
+  changes.forEach((change) => {
+    console.log(
+      `${change.status.padStart(10)}: ${path.relative(
+        process.cwd(),
+        change.path,
+      )}`,
+    );
+  });
+
+  if (showDiff) {
+    changes
+      .filter((change) => change.diff)
+      .forEach((change) => {
+        console.log(`\n${change.diff}`);
+      });
+  }
+};
@@ -1,5 +1,8 @@
 import { prompt } from "enquirer";
 import { existsSync } from "fs";
+import { TypeScriptHooks } from "./documents";
+import { SplitKinds } from "./layout";
+import { DocumentValidation } from "./verify";
 
 const PATTERN_NAMES_WITH_COMMA = /\w+(,\w+)?/;
 export type Action = "graphql" | "template" | "all";
@@ -8,7 +11,7 @@ const parseActions = (action: Action): Action[] => {
   return action === "all" ? ["graphql", "template"] : [action];
 };
 
-type QuestionResult = {
+export type QuestionResult = {
   url: string;
   adminSecret: string;
   role: string;
@@ -32,10 +35,112 @@ type QuestionResult = {
   tailFields: string[];
 };
 
+// options that can be overridden per model in the config
+export type ModelOverrides = Partial<
+  Pick<
+    QuestionResult,
+    | "maxDepth"
+    | "enableSubfieldArgs"
+    | "disableFragments"
+    | "disableArgSuffixes"
+    | "enableQuery"
+    | "enableMutation"
+    | "enableSubscription"
+    | "disableFields"
+    | "disableFieldPrefixes"
+    | "disableFieldSuffixes"
+    | "primaryKeyNames"
+    | "headFields"
+    | "tailFields"
+  >
+> & {
+  // answers of template prompt questions, merged over the global answers
+  templateArguments?: Record<string, unknown>;
+};
+
 export type GenerateOptions = QuestionResult & {
+  action?: Action;
+  // local SDL or introspection json file, used instead of the endpoint url
+  schema?: string;
   headers?: Record<string, string>;
   method?: string;
   silent?: boolean;
+  interactive?: boolean;
+  // generate for many roles in one run, overrides the single role
+  roles?: string[];
+  // write outputs of many roles into per-role folders or file prefixes
+  roleOutput?: "folder" | "prefix";
+  // model names or glob patterns to exclude from models
+  excludeModels?: string[];
+  // map graphql scalars to typescript types, e.g. { uuid: "string" }
+  scalars?: Record<string, string>;
+  // regenerate outputs when templates, the config or the schema change
+  watch?: boolean;
+  // poll the remote schema every n seconds in watch mode
+  watchSchemaInterval?: number;
+  // list files that would be created or changed with a diff, without writing
+  dryRun?: boolean;
+  // fail if generated outputs differ from files on disk
+  check?: boolean;
+  // the folder of cached introspected schemas
+  cachePath?: string;
+  // use the cached schema instead of introspecting the endpoint
+  offline?: boolean;
+  // option overrides keyed by model names or glob patterns
+  modelOptions?: Record<string, ModelOverrides>;
+  // hygen, ejs, handlebars or the path of a custom renderer module
+  renderer?: string;
+  // answers of template prompt questions, the prompt only asks unanswered ones
+  templateArguments?: Record<string, unknown>;
+  // the number of codegen calls and templates rendered at the same time
+  concurrency?: number;
+  // a hasura metadata export, custom root field names of tables are read from it
+  metadata?: string;
+  // generate typed document nodes next to the graphql files
+  typescript?: boolean;
+  // generate apollo or urql hooks of typed documents
+  hooks?: TypeScriptHooks;
+  // the file name pattern of documents without the extension, e.g. {role}/{model:kebab}
+  outputFileName?: string;
+  // split queries, mutations, subscriptions and fragments into files or folders
+  splitKinds?: SplitKinds;
+  // write index files importing all generated documents
+  indexFile?: boolean;
+  // the manifest file recording generated files
+  manifestPath?: string;
+  // delete generated files which aren't generated anymore
+  prune?: boolean;
+  // prune files even if they're edited since generation
+  force?: boolean;
+  // the config target name, generated files are recorded per target
+  target?: string;
+  // fail or warn if generated documents are invalid against the role schema
+  validateDocuments?: DocumentValidation;
+};
+
+export const ACTIONS: Action[] = ["graphql", "template", "all"];
+
+// default answers, used as prompt initial values and in non-interactive mode
+const defaultOptions: Omit<QuestionResult, "url" | "models"> = {
+  adminSecret: "",
+  role: "admin",
+  maxDepth: 1,
+  enableSubfieldArgs: false,
+  disableFragments: false,
+  disableArgSuffixes: [],
+  outputPath: ".",
+  outputFilePrefix: "",
+  enableQuery: true,
+  enableMutation: true,
+  enableSubscription: false,
+  separateFiles: true,
+  templatePath: "_templates/hello",
+  disableFields: [],
+  disableFieldPrefixes: [],
+  disableFieldSuffixes: [],
+  primaryKeyNames: ["id"],
+  headFields: [],
+  tailFields: [],
 };
 
 const actionQuestions = [
@@ -56,7 +161,7 @@ const startPrompt = async (
   defaultConfigs: Partial<GenerateOptions>,
 ): Promise<[Action[], GenerateOptions]> => {
   const sharedQuestions = [
-    !defaultConfigs.url
+    !defaultConfigs.url && !defaultConfigs.schema
       ? {
           type: "input",
           name: "url",
@@ -69,33 +174,21 @@ const startPrompt = async (
           },
         }
       : null,
-    !defaultConfigs.adminSecret
+    !defaultConfigs.adminSecret && !defaultConfigs.schema
       ? {
           type: "input",
           name: "adminSecret",
           message: "What is the admin secret?",
         }
       : null,
-    !defaultConfigs.role
+    !defaultConfigs.role && !defaultConfigs.roles?.length
       ? {
           type: "input",
           name: "role",
           message: "What is the default role?",
-          initial: "admin",
+          initial: defaultOptions.role,
         }
       : null,
-    {
-      type: "input",
-      name: "models",
-      message: "What models do you need to generate? (separated by comma)",
-      result: parseArrayString,
-      validate(value: string): string | boolean {
-        if (!value || !PATTERN_NAMES_WITH_COMMA.test(value)) {
-          return "models value is empty or in invalid format";
-        }
-        return true;
-      },
-    },
     defaultConfigs.silent && defaultConfigs.disableFields !== undefined
       ? null
       : {
@@ -141,7 +234,7 @@ const startPrompt = async (
             return true;
           },
         },
-  ];
+  ].filter((q) => q);
 
   const graphqlQuestions = [
     defaultConfigs.silent && defaultConfigs.maxDepth
@@ -150,7 +243,7 @@ const startPrompt = async (
           type: "numeral",
           name: "maxDepth",
           message: "What is the max depth of output sub-fields?",
-          initial: defaultConfigs.maxDepth ?? 1,
+          initial: defaultConfigs.maxDepth ?? defaultOptions.maxDepth,
           validate(value: unknown) {
             const message = "maxDepth must be larger than 0";
             try {
@@ -178,7 +271,7 @@ const startPrompt = async (
           type: "toggle",
           name: "enableQuery",
           message: "Enable queries?",
-          initial: defaultConfigs.enableQuery ?? true,
+          initial: defaultConfigs.enableQuery ?? defaultOptions.enableQuery,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -188,7 +281,8 @@ const startPrompt = async (
           type: "toggle",
           name: "enableMutation",
           message: "Enable mutations?",
-          initial: defaultConfigs.enableMutation ?? true,
+          initial:
+            defaultConfigs.enableMutation ?? defaultOptions.enableMutation,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -198,7 +292,9 @@ const startPrompt = async (
           type: "toggle",
           name: "enableSubscription",
           message: "Enable subscriptions?",
-          initial: defaultConfigs.enableSubscription ?? false,
+          initial:
+            defaultConfigs.enableSubscription ??
+            defaultOptions.enableSubscription,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -208,7 +304,9 @@ const startPrompt = async (
           type: "toggle",
           name: "enableSubfieldArgs",
           message: "Enable arguments of sub-fields?",
-          initial: defaultConfigs.enableSubfieldArgs ?? false,
+          initial:
+            defaultConfigs.enableSubfieldArgs ??
+            defaultOptions.enableSubfieldArgs,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -218,7 +316,8 @@ const startPrompt = async (
           type: "toggle",
           name: "disableFragments",
           message: "Disable fragment types?",
-          initial: defaultConfigs.disableFragments ?? false,
+          initial:
+            defaultConfigs.disableFragments ?? defaultOptions.disableFragments,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -239,19 +338,21 @@ const startPrompt = async (
             return true;
           },
         },
-    {
-      type: "input",
-      name: "outputPath",
-      message: "What folder should we generate graphql files to?",
-      initial: defaultConfigs.outputPath ?? ".",
-    },
+    defaultConfigs.silent && defaultConfigs.outputPath !== undefined
+      ? null
+      : {
+          type: "input",
+          name: "outputPath",
+          message: "What folder should we generate graphql files to?",
+          initial: defaultConfigs.outputPath ?? defaultOptions.outputPath,
+        },
     defaultConfigs.silent && defaultConfigs.separateFiles !== undefined
       ? null
       : {
           type: "toggle",
           name: "separateFiles",
           message: "Separate different graphql files for each model?",
-          initial: defaultConfigs.separateFiles ?? true,
+          initial: defaultConfigs.separateFiles ?? defaultOptions.separateFiles,
           enabled: "Yep",
           disabled: "Nope",
         },
@@ -261,7 +362,8 @@ const startPrompt = async (
           type: "input",
           name: "outputFilePrefix",
           message: "What prefix of graphql files should we generate to?",
-          initial: defaultConfigs.outputFilePrefix ?? "",
+          initial:
+            defaultConfigs.outputFilePrefix ?? defaultOptions.outputFilePrefix,
         },
   ].filter((m) => m);
 
@@ -273,7 +375,9 @@ const startPrompt = async (
           name: "primaryKeyNames",
           message:
             "What fallback primary key names should we use if no insert and update permissions?",
-          initial: defaultConfigs.primaryKeyNames?.join(",") ?? "id",
+          initial: (
+            defaultConfigs.primaryKeyNames ?? defaultOptions.primaryKeyNames
+          ).join(","),
           result: parseArrayString,
           validate(value: string): string | boolean {
             if (value && !PATTERN_NAMES_WITH_COMMA.test(value)) {
@@ -320,7 +424,7 @@ const startPrompt = async (
           type: "input",
           name: "templatePath",
           message: "What template path should we render?",
-          initial: defaultConfigs.templatePath ?? "_templates/hello",
+          initial: defaultConfigs.templatePath ?? defaultOptions.templatePath,
           validate(value: string): string | boolean {
             if (!value || !existsSync(value)) {
               return "template path does not exist";
@@ -330,7 +434,9 @@ const startPrompt = async (
         },
   ].filter((s) => s);
 
-  const actionAnswer = await prompt<{ action: Action }>(actionQuestions);
+  const actionAnswer = defaultConfigs.action
+    ? { action: defaultConfigs.action }
+    : await prompt<{ action: Action }>(actionQuestions);
   const actions = parseActions(actionAnswer.action);
 
   const questions = (() => {
@@ -357,7 +463,80 @@ const startPrompt = async (
   ];
 };
 
-const parseArrayString = (input: string): string[] => {
+/**
+ * fill options which aren't set with the default answers
+ */
+export const applyDefaultOptions = (
+  defaultConfigs: Partial<GenerateOptions>,
+): GenerateOptions => ({
+  ...defaultOptions,
+  ...defaultConfigs,
+  url: defaultConfigs.url ?? "",
+  models: defaultConfigs.models ?? [],
+});
+
+/**
+ * resolve options without prompting, for CI and other environments without TTY.
+ * Missing optional values fall back to the prompt defaults,
+ * missing required values are reported all at once
+ */
+export const resolveOptions = (
+  defaultConfigs: Partial<GenerateOptions>,
+): [Action[], GenerateOptions] => {
+  const action = defaultConfigs.action ?? "graphql";
+  const actions = parseActions(action);
+  const options = applyDefaultOptions(defaultConfigs);
+
+  const errors = [
+    !options.url && !options.schema
+      ? "--url: the graphql endpoint url or --schema file is required"
+      : null,
+    !options.models.length ? "--models: models value is empty" : null,
+    actions.includes("template") && !existsSync(options.templatePath)
+      ? `--template-path: template path ${options.templatePath} does not exist`
+      : null,
+  ].filter((s): s is string => Boolean(s));
+
+  if (errors.length) {
+    throw new Error(
+      `missing required options in non-interactive mode:\n  ${errors.join(
+        "\n  ",
+      )}`,
+    );
+  }
+
+  return [actions, options];
+};
+
+/**
+ * ask models to generate from the models discovered in the schema
+ */
+export const promptModels = async (choices: string[]): Promise<string[]> => {
+  const modelsQuestion = {
+    type: "autocomplete",
+    name: "models",
+    message: "What models do you need to generate?",
+    multiple: true,
+    choices,
+    validate(value: string[]): string | boolean {
+      if (!value.length) {
+        return "models value is empty";
+      }
+      return true;
+    },
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const answer = await prompt<{ models: string[] }>([modelsQuestion] as any[]);
+
+  return answer.models;
+};
+
+export const getRoles = (
+  options: Pick<GenerateOptions, "role" | "roles">,
+): string[] => (options.roles?.length ? options.roles : [options.role]);
+
+export const parseArrayString = (input: string): string[] => {
   if (!input) {
     return [];
   }
@@ -0,0 +1,159 @@
+import { readdirSync, readFileSync, statSync } from "fs";
+import path from "path";
+import ejs from "ejs";
+import {
+  executeTemplateActions,
+  loadRunnerConfig,
+  renderTemplateActions,
+  renderTemplateFiles,
+} from "./template";
+import { OutputFile, WrittenFile, writeOutputFile } from "./output";
+
+export type TemplateContext = Record<string, unknown> & {
+  // the template folder
+  actionfolder: string;
+  modelName: string;
+};
+
+export type TemplateRenderer = {
+  // render templates of a model into memory
+  render: (context: TemplateContext) => Promise<OutputFile[]>;
+  // write outputs itself, rendered files are written if it isn't set.
+  // Returned files are recorded in the manifest
+  write?: (context: TemplateContext) => Promise<WrittenFile[] | undefined>;
+};
+
+type Handlebars = {
+  compile: (source: string) => (context: unknown) => string;
+};
+
+export type RendererOptions = {
+  // overwrite existing files without prompts, in non-interactive and watch modes
+  overwrite?: boolean;
+};
+
+const createHygenRenderer = (options: RendererOptions): TemplateRenderer => {
+  // .hygen.js is resolved once for all models
+  const runnerConfig = loadRunnerConfig(options.overwrite);
+  // actions may inject into the same files, so they're executed one by one
+  let executing: Promise<WrittenFile[]> = Promise.resolve([]);
+
+  return {
+    render: async (context) => renderTemplateFiles(context, await runnerConfig),
+    write: async (context) => {
+      const config = await runnerConfig;
+      const actions = await renderTemplateActions(context, config);
+      executing = executing
+        .catch(() => [])
+        .then(() => executeTemplateActions(actions, context, config));
+      return executing;
+    },
+  };
+};
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap((name) => {
+    const filePath = path.join(dir, name);
+    return statSync(filePath).isDirectory() ? listFiles(filePath) : [filePath];
+  });
+
+/**
+ * render files with the extension in the template folder.
+ * File paths are rendered too, outputs mirror the folder structure
+ * relative to the working directory, e.g. src/<%= modelName %>.ts.ejs
+ */
+const createDirectoryRenderer = (
+  extension: string,
+  renderString: (source: string, context: TemplateContext) => string,
+): TemplateRenderer => ({
+  render: (context) => {
+    const templatePath = path.resolve(context.actionfolder);
+    const outputFiles = listFiles(templatePath)
+      .filter((filePath) => filePath.endsWith(extension))
+      .map((filePath) => ({
+        path: path.resolve(
+          renderString(
+            path.relative(templatePath, filePath).slice(0, -extension.length),
+            context,
+          ),
+        ),
+        content: renderString(readFileSync(filePath, "utf-8"), context),
+      }));
+    return Promise.resolve(outputFiles);
+  },
+});
+
+const loadHandlebars = (): Handlebars => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(
+      require.resolve("handlebars", {
+        paths: [process.cwd()],
+      }),
+    ) as Handlebars;
+  } catch {
+    throw new Error(
+      "the handlebars package is required to render handlebars templates, please install it",
+    );
+  }
+};
+
+const loadRendererModule = (modulePath: string): TemplateRenderer => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const exports = require(path.resolve(modulePath)) as {
+    default?: TemplateRenderer;
+  } & Partial<TemplateRenderer>;
+  const renderer = exports.default ?? exports;
+  if (typeof renderer.render !== "function") {
+    throw new Error(
+      `the renderer module ${modulePath} doesn't export a render function`,
+    );
+  }
+  return renderer as TemplateRenderer;
+};
+
+/**
+ * resolve a built-in renderer by name: hygen, ejs or handlebars,
+ * or load a custom renderer module by its path
+ */
+export const resolveRenderer = (
+  renderer: string | TemplateRenderer = "hygen",
+  options: RendererOptions = {},
+): TemplateRenderer => {
+  if (typeof renderer !== "string") {
+    return renderer;
+  }
+
+  switch (renderer) {
+    case "hygen":
+      return createHygenRenderer(options);
+    case "ejs":
+      return createDirectoryRenderer(".ejs", (source, context) =>
+        ejs.render(source, context),
+      );
+    case "handlebars": {
+      const handlebars = loadHandlebars();
+      return createDirectoryRenderer(".hbs", (source, context) =>
+        handlebars.compile(source)(context),
+      );
+    }
+    default:
+      return loadRendererModule(renderer);
+  }
+};
+
+export const writeTemplate = async (
+  renderer: TemplateRenderer,
+  context: TemplateContext,
+): Promise<WrittenFile[]> => {
+  if (renderer.write) {
+    return (await renderer.write(context)) ?? [];
+  }
+
+  const outputFiles = await renderer.render(context);
+  return outputFiles.map((file) => {
+    writeOutputFile(file);
+    console.log(`       added: ${path.relative(process.cwd(), file.path)}`);
+    return { path: file.path, written: true };
+  });
+};
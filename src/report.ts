@@ -0,0 +1,132 @@
+import { GraphQLSchema } from "graphql";
+import { RootFieldNames } from "./naming";
+import {
+  buildModelFields,
+  getModelOperations,
+  ModelFieldSchema,
+  ModelOperation,
+} from "./schema";
+
+export type ModelSchemaChange = {
+  model: string;
+  status: "added" | "removed" | "changed";
+  addedFields: string[];
+  removedFields: string[];
+  nullabilityChanges: { name: string; nullable: boolean }[];
+  gainedPermissions: ModelOperation[];
+  lostPermissions: ModelOperation[];
+};
+
+type ReportOptions = {
+  disableFields?: string[];
+  disableFieldPrefixes?: string[];
+  disableFieldSuffixes?: string[];
+  rootFieldNames?: RootFieldNames;
+};
+
+const getPermittedOperations = (
+  schema: GraphQLSchema,
+  modelName: string,
+  rootFieldNames?: RootFieldNames,
+): ModelOperation[] => {
+  const operations = getModelOperations(schema, modelName, rootFieldNames);
+  return (Object.keys(operations) as ModelOperation[]).filter(
+    (operation) => operations[operation] !== null,
+  );
+};
+
+const findField = (fields: ModelFieldSchema[], name: string) =>
+  fields.find((field) => field.name === name);
+
+/**
+ * compare model schemas of the previous and the next schema
+ */
+export const buildSchemaChanges = (
+  previousSchema: GraphQLSchema,
+  nextSchema: GraphQLSchema,
+  models: string[],
+  options: ReportOptions,
+): ModelSchemaChange[] =>
+  models.reduce<ModelSchemaChange[]>((acc, model) => {
+    const previousFields = buildModelFields(previousSchema, model, options);
+    const nextFields = buildModelFields(nextSchema, model, options);
+    if (!previousFields && !nextFields) {
+      return acc;
+    }
+
+    const previousOperations = getPermittedOperations(
+      previousSchema,
+      model,
+      options.rootFieldNames,
+    );
+    const nextOperations = getPermittedOperations(
+      nextSchema,
+      model,
+      options.rootFieldNames,
+    );
+
+    const change: ModelSchemaChange = {
+      model,
+      status: !previousFields ? "added" : !nextFields ? "removed" : "changed",
+      addedFields: (nextFields ?? [])
+        .filter((field) => !findField(previousFields ?? [], field.name))
+        .map((field) => field.name),
+      removedFields: (previousFields ?? [])
+        .filter((field) => !findField(nextFields ?? [], field.name))
+        .map((field) => field.name),
+      nullabilityChanges: (nextFields ?? []).reduce<
+        ModelSchemaChange["nullabilityChanges"]
+      >((changes, field) => {
+        const previousField = findField(previousFields ?? [], field.name);
+        return previousField && previousField.nullable !== field.nullable
+          ? [...changes, { name: field.name, nullable: field.nullable }]
+          : changes;
+      }, []),
+      gainedPermissions: nextOperations.filter(
+        (operation) => !previousOperations.includes(operation),
+      ),
+      lostPermissions: previousOperations.filter(
+        (operation) => !nextOperations.includes(operation),
+      ),
+    };
+
+    const isChanged =
+      change.status !== "changed" ||
+      [
+        change.addedFields,
+        change.removedFields,
+        change.nullabilityChanges,
+        change.gainedPermissions,
+        change.lostPermissions,
+      ].some((items) => items.length > 0);
+
+    return isChanged ? [...acc, change] : acc;
+  }, []);
+
+export const printSchemaChanges = (
+  role: string,
+  changes: ModelSchemaChange[],
+) => {
+  console.log(`\nschema changes of role ${role}:`);
+  if (!changes.length) {
+    console.log("  no model is changed");
+    return;
+  }
+
+  changes.forEach((change) => {
+    console.log(`  ${change.model} (${change.status})`);
+    const lines = [
+      ...change.addedFields.map((name) => `+ field ${name}`),
+      ...change.removedFields.map((name) => `- field ${name}`),
+      ...change.nullabilityChanges.map(
+        ({ name, nullable }) =>
+          `~ field ${name} is ${nullable ? "nullable" : "non-nullable"} now`,
+      ),
+      ...change.gainedPermissions.map((name) => `+ permission ${name}`),
+      ...change.lostPermissions.map((name) => `- permission ${name}`),
+    ];
+    lines.forEach((line) => {
+      console.log(`    ${line}`);
+    });
+  });
+};
@@ -0,0 +1,169 @@
+import assert from "assert";
+import { buildSchema } from "graphql";
+import { describe, it } from "node:test";
+import buildModelSchemas, {
+  BuildModelSchemaOptions,
+  buildRolePermissions,
+  getModelOperations,
+} from "./schema";
+
+const OPTIONS: BuildModelSchemaOptions = {
+  disableFields: undefined,
+  disableFieldPrefixes: undefined,
+  disableFieldSuffixes: undefined,
+  primaryKeyNames: ["id"],
+  headFields: [],
+  tailFields: [],
+};
+
+const HASURA_DEFAULT_SDL = `
+  type users { id: Int! name: String }
+  type users_mutation_response { affected_rows: Int! returning: [users!]! }
+  enum users_constraint { users_pkey }
+  enum users_update_column { name }
+  input users_on_conflict { constraint: users_constraint! update_columns: [users_update_column!]! }
+  input users_bool_exp { id: Int_comparison_exp }
+  input Int_comparison_exp { _eq: Int }
+  input users_insert_input { id: Int name: String }
+  input users_set_input { name: String }
+  input users_pk_columns_input { id: Int! }
+  type query_root {
+    users(where: users_bool_exp): [users!]!
+    users_by_pk(id: Int!): users
+  }
+  type mutation_root {
+    insert_users(objects: [users_insert_input!]!, on_conflict: users_on_conflict): users_mutation_response
+    update_users_by_pk(pk_columns: users_pk_columns_input!, _set: users_set_input): users
+  }
+  schema { query: query_root mutation: mutation_root }
+`;
+
+const GRAPHQL_DEFAULT_SDL = `
+  type Users { id: Int! name: String }
+  type UsersMutationResponse { affectedRows: Int! returning: [Users!]! }
+  enum UsersConstraint { USERS_PKEY }
+  enum UsersUpdateColumn { NAME }
+  input UsersOnConflict { constraint: UsersConstraint! updateColumns: [UsersUpdateColumn!]! }
+  input UsersInsertInput { id: Int name: String }
+  input UsersSetInput { name: String }
+  input UsersPkColumnsInput { id: Int! }
+  type query_root {
+    users: [Users!]!
+    usersByPk(id: Int!): Users
+  }
+  type mutation_root {
+    insertUsers(objects: [UsersInsertInput!]!, onConflict: UsersOnConflict): UsersMutationResponse
+    updateUsersByPk(pkColumns: UsersPkColumnsInput!, _set: UsersSetInput): Users
+  }
+  schema { query: query_root mutation: mutation_root }
+`;
+
+// the role can insert contacts, but can't select them
+const WRITE_ONLY_SDL = `
+  type query_root { _placeholder: Int }
+  input contact_insert_input { email: String }
+  type contact_mutation_response { affected_rows: Int! }
+  type mutation_root {
+    insert_contact(objects: [contact_insert_input!]!): contact_mutation_response
+  }
+  schema { query: query_root mutation: mutation_root }
+`;
+
+void describe("buildModelSchemas", () => {
+  void it("detects permissions of the hasura default naming convention", () => {
+    const { users } = buildModelSchemas(
+      buildSchema(HASURA_DEFAULT_SDL),
+      ["users"],
+      OPTIONS,
+    );
+
+    assert.deepStrictEqual(users.permissions, {
+      get: true,
+      insert: true,
+      upsert: true,
+      update: true,
+      delete: false,
+    });
+    assert.deepStrictEqual(users.upsert, {
+      constraints: ["users_pkey"],
+      updateColumns: ["name"],
+    });
+    assert.strictEqual(users.primaryKeySource, "pk_columns_input");
+  });
+
+  void it("detects permissions of the graphql-default naming convention", () => {
+    const { users } = buildModelSchemas(
+      buildSchema(GRAPHQL_DEFAULT_SDL),
+      ["users"],
+      OPTIONS,
+    );
+
+    assert.strictEqual(users.operations.update_by_pk, "updateUsersByPk");
+    assert.deepStrictEqual(users.permissions, {
+      get: true,
+      insert: true,
+      upsert: true,
+      update: true,
+      delete: false,
+    });
+    assert.deepStrictEqual(users.upsert, {
+      constraints: ["USERS_PKEY"],
+      updateColumns: ["NAME"],
+    });
+    assert.deepStrictEqual(
+      users.primaryKeys.map((field) => field.name),
+      ["id"],
+    );
+  });
+
+  void it("detects insert permissions of write-only roles", () => {
+    const { contact } = buildModelSchemas(
+      buildSchema(WRITE_ONLY_SDL),
+      ["contact"],
+      OPTIONS,
+    );
+
+    assert.strictEqual(contact.operations.insert, "insert_contact");
+    assert.deepStrictEqual(contact.permissions, {
+      get: false,
+      insert: true,
+      upsert: false,
+      update: false,
+      delete: false,
+    });
+    assert.deepStrictEqual(
+      contact.insertInput.map((field) => field.name),
+      ["email"],
+    );
+  });
+});
+
+void describe("buildRolePermissions", () => {
+  void it("builds permissions of models visible to some roles only", () => {
+    const roleSchemas = {
+      admin: buildSchema(HASURA_DEFAULT_SDL),
+      writer: buildSchema(WRITE_ONLY_SDL),
+    };
+
+    assert.deepStrictEqual(buildRolePermissions(roleSchemas, "contact"), {
+      admin: {
+        get: false,
+        insert: false,
+        upsert: false,
+        update: false,
+        delete: false,
+      },
+      writer: {
+        get: false,
+        insert: true,
+        upsert: false,
+        update: false,
+        delete: false,
+      },
+    });
+    assert.strictEqual(
+      getModelOperations(roleSchemas.writer, "users").select,
+      null,
+    );
+  });
+});
@@ -1,4 +1,9 @@
 import {
+  getNamedType,
+  GraphQLArgument,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLInputFieldMap,
   GraphQLInputObjectType,
   GraphQLObjectType,
   GraphQLSchema,
@@ -9,7 +14,20 @@ import {
   isNonNullType,
   isObjectType,
 } from "graphql";
-import { camel, snake } from "radash";
+import { findModelSchema, getModelOptions } from "./models";
+import {
+  findArgument,
+  getRootFields,
+  resolveModelNames,
+  RootFieldNames,
+} from "./naming";
+import { ModelOverrides } from "./prompt";
+
+export type ModelEnumValue = {
+  name: string;
+  value: unknown;
+  description: string | null;
+};
 
 export type ModelFieldSchema = {
   name: string;
@@ -17,77 +35,160 @@ export type ModelFieldSchema = {
   array: boolean;
   nullable: boolean;
   isEnum: boolean;
+  description: string | null;
+  // the full graphql type, e.g. [String!]!
+  graphqlType: string;
+  // the typescript type of the inner type, mapped from the scalars option
+  tsType: string;
+  // values of enum types, including hasura enum tables
+  enumValues: ModelEnumValue[];
+  // the default value of input fields
+  defaultValue: unknown;
+};
+
+export type ModelRelationshipSchema = {
+  name: string;
+  // the target model name
+  model: string;
+  kind: "object" | "array";
+  nullable: boolean;
+  // arguments of array relationships, e.g. where, order_by, limit, offset
+  arguments: string[];
+  // the aggregate field of array relationships, e.g. posts_aggregate
+  aggregate: string | null;
+};
+
+// nested insert inputs of relationships, e.g. posts: posts_arr_rel_insert_input
+export type ModelInsertRelationshipSchema = {
+  name: string;
+  // the target model name
+  model: string;
+  kind: "object" | "array";
+  nullable: boolean;
+  // the nested input type name
+  inputType: string;
+  // the nested input accepts on_conflict
+  upsert: boolean;
+};
+
+export type ModelUpsertSchema = {
+  // values of the <model>_constraint enum
+  constraints: string[];
+  // values of the <model>_update_column enum
+  updateColumns: string[];
 };
 
+export type ModelOperation =
+  | "select"
+  | "select_by_pk"
+  | "select_aggregate"
+  | "insert"
+  | "insert_one"
+  | "update"
+  | "update_by_pk"
+  | "update_many"
+  | "delete"
+  | "delete_by_pk"
+  | "subscription"
+  | "subscription_stream";
+
+// root field names of model operations, null if the role can't use them
+export type ModelOperations = Record<ModelOperation, string | null>;
+
+export type ModelPermissions = {
+  get: boolean;
+  insert: boolean;
+  // insert mutations accept the on_conflict argument
+  upsert: boolean;
+  update: boolean;
+  delete: boolean;
+};
+
+// where primary keys are read from
+export type PrimaryKeySource =
+  "pk_columns_input" | "select_by_pk" | "delete_by_pk" | "fallback";
+
 export type ModelSchemas = {
   primaryKeys: ModelFieldSchema[];
-  permissions: {
-    get: boolean;
-    insert: boolean;
-    update: boolean;
-    delete: boolean;
-  };
+  primaryKeySource: PrimaryKeySource;
+  permissions: ModelPermissions;
+  operations: ModelOperations;
+  // permissions and operations of the model keyed by role,
+  // when generating for many roles
+  rolePermissions: Record<string, ModelPermissions>;
+  roleOperations: Record<string, ModelOperations>;
   model: ModelFieldSchema[];
   insertInput: ModelFieldSchema[];
+  insertRelationships: ModelInsertRelationshipSchema[];
+  // null if the role can't upsert the model
+  upsert: ModelUpsertSchema | null;
   setInput: ModelFieldSchema[];
+  relationships: ModelRelationshipSchema[];
 };
 
-type BuildModelSchemaOptions = {
+export type BuildModelSchemaOptions = {
   disableFields: string[] | undefined;
   disableFieldPrefixes: string[] | undefined;
   disableFieldSuffixes: string[] | undefined;
   primaryKeyNames: string[] | undefined;
   headFields: string[];
   tailFields: string[];
+  roleSchemas?: Record<string, GraphQLSchema>;
+  scalars?: Record<string, string>;
+  // option overrides keyed by model names or glob patterns
+  modelOptions?: Record<string, ModelOverrides>;
+  // custom root field names, e.g. from hasura metadata
+  rootFieldNames?: RootFieldNames;
+};
+
+export const defaultScalars: Partial<Record<string, string>> = {
+  ID: "string",
+  String: "string",
+  Boolean: "boolean",
+  Int: "number",
+  Float: "number",
+  uuid: "string",
+  citext: "string",
+  bpchar: "string",
+  date: "string",
+  time: "string",
+  timetz: "string",
+  timestamp: "string",
+  timestamptz: "string",
+  interval: "string",
+  smallint: "number",
+  bigint: "number",
+  numeric: "number",
+  float8: "number",
+  json: "unknown",
+  jsonb: "unknown",
 };
 
 const buildModelSchemas = (
-  schema: GraphQLSchema,
+  primarySchema: GraphQLSchema,
   models: string[],
-  options: BuildModelSchemaOptions
+  globalOptions: BuildModelSchemaOptions
 ): Record<string, ModelSchemas> => {
-  const mutationFields = schema.getMutationType()?.getFields();
-
   return models.reduce((acc, modelName) => {
-    const fieldName = snake(modelName);
-    const fieldInsertInputName = snake(`${fieldName}_insert_input`);
-    const fieldSetInputName = snake(`${fieldName}_set_input`);
-    const deleteFieldName = `delete_${fieldName}`;
-    const fieldPkColumnsName = snake(`${fieldName}_pk_columns_input`);
-
-    const fieldNameCamelCase = camel(modelName);
-    const fieldInsertInputNameCamelCase = camel(fieldInsertInputName);
-    const fieldSetInputNameCamelCase = camel(fieldSetInputName);
-    const deleteFieldNameCamelCase = camel(deleteFieldName);
-    const fieldPkColumnsNameCamelCase = camel(fieldPkColumnsName);
-
-    const modelType = (
-      isObjectType(schema.getType(fieldName))
-        ? schema.getType(fieldName)
-        : schema.getType(fieldNameCamelCase)
-    ) as GraphQLObjectType;
-
-    const insertInputType = (
-      isInputObjectType(schema.getType(fieldInsertInputName))
-        ? schema.getType(fieldInsertInputName)
-        : schema.getType(fieldInsertInputNameCamelCase)
-    ) as GraphQLInputObjectType;
-
-    const setInputType = (
-      isInputObjectType(schema.getType(fieldSetInputName))
-        ? schema.getType(fieldSetInputName)
-        : schema.getType(fieldSetInputNameCamelCase)
-    ) as GraphQLInputObjectType;
-
-    const pkInputType = (
-      isInputObjectType(schema.getType(fieldPkColumnsName))
-        ? schema.getType(fieldPkColumnsName)
-        : schema.getType(fieldPkColumnsNameCamelCase)
-    ) as GraphQLInputObjectType;
-
-    const canDelete = Boolean(
-      Boolean(mutationFields) && (Boolean(mutationFields![deleteFieldName]) || Boolean(mutationFields![deleteFieldNameCamelCase]))  
+    const options = getModelOptions(
+      globalOptions,
+      globalOptions.modelOptions,
+      modelName,
     );
+    // the model may be visible to some roles only, it's built from the first role which can see it
+    const schema =
+      findModelSchema(
+        [primarySchema, ...Object.values(options.roleSchemas ?? {})],
+        modelName,
+        options.rootFieldNames,
+      ) ?? primarySchema;
+    const {
+      modelType,
+      insertInputType,
+      setInputType,
+      pkInputType,
+      operations,
+    } = resolveModelNames(schema, modelName, options.rootFieldNames);
 
     const modelSchemas = isObjectType(modelType)
       ? buildModelSchema(modelType, options)
@@ -101,21 +202,47 @@ const buildModelSchemas = (
       ? buildModelSchema(setInputType, options)
       : [];
 
-    const primaryKeys = isInputObjectType(pkInputType)
-      ? buildModelSchema(pkInputType, options)
-      : modelSchemas.filter((m) => options.primaryKeyNames?.includes(m.name));
+    const [primaryKeySource, primaryKeys] = getPrimaryKeys(
+      schema,
+      pkInputType,
+      operations,
+      modelSchemas,
+      options,
+    );
+    if (primaryKeySource === "fallback" && modelSchemas.length) {
+      console.warn(
+        `WARNING: can't detect primary keys of model ${modelName}, fallback to primaryKeyNames: ${
+          options.primaryKeyNames?.join(",") ?? ""
+        }`,
+      );
+    }
 
     const result: ModelSchemas = {
       primaryKeys,
+      primaryKeySource,
       model: sortFieldOrder(modelSchemas, options.headFields, options.tailFields),
       insertInput: sortFieldOrder(insertInput, options.headFields, options.tailFields),
+      insertRelationships:
+        isObjectType(modelType) && isInputObjectType(insertInputType)
+          ? buildInsertRelationships(modelType, insertInputType, options)
+          : [],
+      upsert: buildUpsertSchema(schema, operations),
       setInput: sortFieldOrder(setInput, options.headFields, options.tailFields),
-      permissions: {
-        get: modelSchemas.length > 0,
-        insert: insertInput.length > 0,
-        update: setInput.length > 0,
-        delete: canDelete,
-      },
+      relationships: isObjectType(modelType)
+        ? buildRelationships(modelType, options)
+        : [],
+      permissions: buildPermissions(schema, operations),
+      operations,
+      rolePermissions: buildRolePermissions(
+        options.roleSchemas ?? {},
+        modelName,
+        options.rootFieldNames,
+      ),
+      roleOperations: buildRoleOperations(
+        options.roleSchemas ?? {},
+        modelName,
+        options.rootFieldNames,
+      ),
     };
 
     if (!result.model.length && !result.insertInput.length && !result.setInput.length) {
@@ -131,6 +258,132 @@ const buildModelSchemas = (
   }, {});
 };
 
+/**
+ * build fields of the model type, or null if the model doesn't exist in the schema
+ */
+export const buildModelFields = (
+  schema: GraphQLSchema,
+  modelName: string,
+  options: Pick<
+    Partial<BuildModelSchemaOptions>,
+    "disableFields" | "disableFieldPrefixes" | "disableFieldSuffixes"
+  >,
+): ModelFieldSchema[] | null => {
+  const { modelType } = resolveModelNames(schema, modelName);
+  return isObjectType(modelType)
+    ? buildModelSchema(modelType, {
+        disableFields: options.disableFields,
+        disableFieldPrefixes: options.disableFieldPrefixes,
+        disableFieldSuffixes: options.disableFieldSuffixes,
+        primaryKeyNames: undefined,
+        headFields: [],
+        tailFields: [],
+      })
+    : null;
+};
+
+/**
+ * detect root fields of every operation of the model
+ */
+export const getModelOperations = (
+  schema: GraphQLSchema,
+  modelName: string,
+  rootFieldNames?: RootFieldNames,
+): ModelOperations =>
+  resolveModelNames(schema, modelName, rootFieldNames).operations;
+
+/**
+ * read primary keys from the pk_columns_input type if the role can update,
+ * otherwise from arguments of the _by_pk query or delete mutation.
+ * Fallback to primaryKeyNames if the role can't use any of them
+ */
+const getPrimaryKeys = (
+  schema: GraphQLSchema,
+  pkInputType: GraphQLInputObjectType | null,
+  operations: ModelOperations,
+  modelSchemas: ModelFieldSchema[],
+  options: BuildModelSchemaOptions,
+): [PrimaryKeySource, ModelFieldSchema[]] => {
+  if (isInputObjectType(pkInputType)) {
+    return ["pk_columns_input", buildModelSchema(pkInputType, options)];
+  }
+
+  if (operations.select_by_pk) {
+    const field = getRootFields(schema, "query")[operations.select_by_pk];
+    return ["select_by_pk", buildFieldSchemas([...field.args], options)];
+  }
+
+  if (operations.delete_by_pk) {
+    const field = getRootFields(schema, "mutation")[operations.delete_by_pk];
+    return ["delete_by_pk", buildFieldSchemas([...field.args], options)];
+  }
+
+  return [
+    "fallback",
+    modelSchemas.filter((m) => options.primaryKeyNames?.includes(m.name)),
+  ];
+};
+
+const buildPermissions = (
+  schema: GraphQLSchema,
+  operations: ModelOperations,
+): ModelPermissions => {
+  const mutationFields = getRootFields(schema, "mutation");
+  const canUpsert = [operations.insert, operations.insert_one].some(
+    (name) =>
+      name !== null &&
+      Boolean(findArgument(mutationFields[name].args, "on_conflict")),
+  );
+
+  return {
+    get: Boolean(operations.select ?? operations.select_by_pk),
+    insert: Boolean(operations.insert ?? operations.insert_one),
+    upsert: canUpsert,
+    update: Boolean(
+      operations.update ?? operations.update_by_pk ?? operations.update_many,
+    ),
+    delete: Boolean(operations.delete ?? operations.delete_by_pk),
+  };
+};
+
+/**
+ * build the permission matrix of a model from the schemas of many roles.
+ * The model may not exist in some roles, then all permissions are false
+ */
+export const buildRolePermissions = (
+  roleSchemas: Record<string, GraphQLSchema>,
+  modelName: string,
+  rootFieldNames?: RootFieldNames,
+): Record<string, ModelPermissions> =>
+  Object.keys(roleSchemas).reduce((acc, role) => {
+    const roleSchema = roleSchemas[role];
+
+    return {
+      ...acc,
+      [role]: buildPermissions(
+        roleSchema,
+        getModelOperations(roleSchema, modelName, rootFieldNames),
+      ),
+    };
+  }, {});
+
+export const buildRoleOperations = (
+  roleSchemas: Record<string, GraphQLSchema>,
+  modelName: string,
+  rootFieldNames?: RootFieldNames,
+): Record<string, ModelOperations> =>
+  Object.keys(roleSchemas).reduce(
+    (acc, role) => ({
+      ...acc,
+      [role]: getModelOperations(
+        roleSchemas[role],
+        modelName,
+        rootFieldNames,
+      ),
+    }),
+    {},
+  );
+
 const getInnerSchemaType = (
   gqlType: GraphQLType,
   schema: ModelFieldSchema
@@ -157,6 +410,11 @@ const getInnerSchemaType = (
       ...schema,
       type: gqlType.name,
       isEnum: true,
+      enumValues: gqlType.getValues().map((value) => ({
+        name: value.name,
+        value: value.value as unknown,
+        description: value.description ?? null,
+      })),
     };
   }
 
@@ -168,32 +426,208 @@ const getInnerSchemaType = (
 
 const buildModelSchema = (
   modelType: GraphQLObjectType | GraphQLInputObjectType,
-  options: BuildModelSchemaOptions
+  options: BuildModelSchemaOptions,
+): ModelFieldSchema[] =>
+  buildFieldSchemas(
+    Object.values<GraphQLField<unknown, unknown> | GraphQLInputField>(
+      modelType.getFields(),
+    ),
+    options,
+  );
+
+const buildFieldSchemas = (
+  fields: (
+    GraphQLField<unknown, unknown> | GraphQLInputField | GraphQLArgument
+  )[],
+  options: BuildModelSchemaOptions,
 ): ModelFieldSchema[] => {
-  const fieldMap = modelType.getFields();
-  return Object.keys(fieldMap).reduce((acc, key) => {
-    if (
-      Boolean(options.disableFields?.includes(key)) ||
-      Boolean(options.disableFieldPrefixes?.some((disabledTerm) => key.startsWith(disabledTerm))) ||
-      Boolean(options.disableFieldSuffixes?.some((disabledTerm) => key.endsWith(disabledTerm))) 
-    ) {
+  return fields.reduce<ModelFieldSchema[]>((acc, field) => {
+    const key = field.name;
+    if (isDisabledField(key, options)) {
       return acc;
     }
 
-    const field = fieldMap[key];
     const schema = getInnerSchemaType(field.type, {
       name: key,
       type: "",
       array: false,
       nullable: true,
       isEnum: false,
+      description: field.description ?? null,
+      graphqlType: field.type.toString(),
+      tsType: "",
+      enumValues: [],
+      defaultValue: "defaultValue" in field ? field.defaultValue : undefined,
     });
 
     if (!schema) {
       return acc;
     }
 
-    return [...acc, schema];
+    return [
+      ...acc,
+      {
+        ...schema,
+        tsType: schema.isEnum
+          ? schema.type
+          : getScalarTsType(schema.type, options.scalars),
+      },
+    ];
+  }, []);
+};
+
+const getScalarTsType = (
+  typeName: string,
+  scalars: Record<string, string> | undefined,
+): string => scalars?.[typeName] ?? defaultScalars[typeName] ?? "unknown";
+
+const isDisabledField = (
+  key: string,
+  options: BuildModelSchemaOptions,
+): boolean =>
+  Boolean(options.disableFields?.includes(key)) ||
+  Boolean(
+    options.disableFieldPrefixes?.some((disabledTerm) =>
+      key.startsWith(disabledTerm),
+    ),
+  ) ||
+  Boolean(
+    options.disableFieldSuffixes?.some((disabledTerm) =>
+      key.endsWith(disabledTerm),
+    ),
+  );
+
+// hasura adds the placeholder value if the enum doesn't have any value
+const ENUM_PLACEHOLDER = "_PLACEHOLDER";
+
+const getEnumValueNames = (gqlType: GraphQLType | undefined): string[] => {
+  const namedType = gqlType && getNamedType(gqlType);
+  return isEnumType(namedType)
+    ? namedType
+        .getValues()
+        .map((value) => value.name)
+        .filter((name) => name !== ENUM_PLACEHOLDER)
+    : [];
+};
+
+const getOnConflictType = (
+  args: readonly GraphQLArgument[] | readonly GraphQLInputField[],
+): GraphQLInputObjectType | null => {
+  const onConflict = findArgument(args, "on_conflict");
+  const onConflictType = onConflict && getNamedType(onConflict.type);
+  return isInputObjectType(onConflictType) ? onConflictType : null;
+};
+
+const buildUpsertSchema = (
+  schema: GraphQLSchema,
+  operations: ModelOperations,
+): ModelUpsertSchema | null => {
+  const mutationFields = getRootFields(schema, "mutation");
+  const onConflictType = [operations.insert, operations.insert_one]
+    .map((name) => (name ? getOnConflictType(mutationFields[name].args) : null))
+    .find(Boolean);
+  if (!onConflictType) {
+    return null;
+  }
+
+  const fields: Partial<GraphQLInputFieldMap> = onConflictType.getFields();
+  return {
+    constraints: getEnumValueNames(fields.constraint?.type),
+    updateColumns: getEnumValueNames(
+      (fields.update_columns ?? fields.updateColumns)?.type,
+    ),
+  };
+};
+
+const buildInsertRelationships = (
+  modelType: GraphQLObjectType,
+  insertInputType: GraphQLInputObjectType,
+  options: BuildModelSchemaOptions,
+): ModelInsertRelationshipSchema[] => {
+  const modelFields = modelType.getFields();
+  return Object.values(insertInputType.getFields()).reduce<
+    ModelInsertRelationshipSchema[]
+  >((acc, field) => {
+    const inputType = getNamedType(field.type);
+    const dataField = isInputObjectType(inputType)
+      ? inputType.getFields().data
+      : undefined;
+    if (isDisabledField(field.name, options) || !dataField) {
+      return acc;
+    }
+
+    const dataType = isNonNullType(dataField.type)
+      ? dataField.type.ofType
+      : dataField.type;
+    // the relationship field of the model has the same name
+    const relationshipType = modelFields[field.name] as
+      GraphQLField<unknown, unknown> | undefined;
+
+    return [
+      ...acc,
+      {
+        name: field.name,
+        model: relationshipType
+          ? getNamedType(relationshipType.type).name
+          : getNamedType(dataType).name.replace(/_?[iI]nsert_?[iI]nput$/, ""),
+        kind: isListType(dataType) ? "array" : "object",
+        nullable: !isNonNullType(field.type),
+        inputType: inputType.name,
+        upsert: Boolean(
+          isInputObjectType(inputType) &&
+          getOnConflictType(Object.values(inputType.getFields())),
+        ),
+      },
+    ];
+  }, []);
+};
+
+const AGGREGATE_SUFFIXES = ["_aggregate", "Aggregate"];
+
+const buildRelationships = (
+  modelType: GraphQLObjectType,
+  options: BuildModelSchemaOptions,
+): ModelRelationshipSchema[] => {
+  const fieldMap = modelType.getFields();
+  return Object.keys(fieldMap).reduce<ModelRelationshipSchema[]>((acc, key) => {
+    const field = fieldMap[key];
+    const targetType = getNamedType(field.type);
+    if (
+      isDisabledField(key, options) ||
+      !isObjectType(targetType) ||
+      // aggregate fields are attached to their array relationships
+      AGGREGATE_SUFFIXES.some(
+        (suffix) =>
+          key.endsWith(suffix) &&
+          targetType.name.endsWith(suffix) &&
+          Boolean(fieldMap[key.slice(0, -suffix.length)]),
+      )
+    ) {
+      return acc;
+    }
+
+    const nullableType = isNonNullType(field.type)
+      ? field.type.ofType
+      : field.type;
+    const kind = isListType(nullableType) ? "array" : "object";
+    const aggregate =
+      kind === "array"
+        ? (AGGREGATE_SUFFIXES.map((suffix) => `${key}${suffix}`).find((name) =>
+            Boolean(fieldMap[name]),
+          ) ?? null)
+        : null;
+
+    return [
+      ...acc,
+      {
+        name: key,
+        model: targetType.name,
+        kind,
+        nullable: !isNonNullType(field.type),
+        arguments: field.args.map((arg) => arg.name),
+        aggregate,
+      },
+    ];
   }, []);
 };
 
@@ -4,10 +4,17 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import render from "hygen/dist/render";
 import execute from "hygen/dist/execute";
-import type { RunnerConfig } from "hygen/dist/types";
+import type {
+  Prompter,
+  RenderedAction,
+  RunnerConfig,
+} from "hygen/dist/types";
 import Logger from "hygen/dist/logger";
 import fs from 'fs-extra'
 import { ConfigResolver } from 'hygen/dist/config'
+import path from "path";
+import { readFileSync } from "fs";
+import type { OutputFile, WrittenFile } from "./output";
 
 const configResolver = new ConfigResolver('.hygen.js', {
   exists: fs.exists,
@@ -26,18 +33,148 @@ const defaultConfigs: RunnerConfig = {
   createPrompter: () => require('enquirer'),
 }
 
-const renderTemplate = async (
+// overwrites existing files without asking, other prompts can't be answered
+const overwritePrompter = {
+  prompt: ({ name }: { name: string }) =>
+    name === "overwrite"
+      ? Promise.resolve({ overwrite: true })
+      : Promise.reject(new Error(`can't prompt ${name} in non-interactive mode`)),
+};
+
+/**
+ * resolve the runner config with .hygen.js of the working directory.
+ * Existing files are overwritten without prompts if overwrite is set
+ */
+export const loadRunnerConfig = async (
+  overwrite = false,
+): Promise<RunnerConfig> => ({
+  ...defaultConfigs,
+  ...(await configResolver.resolve(process.cwd())),
+  ...(overwrite
+    ? {
+        createPrompter: <Q, T>() =>
+          overwritePrompter as unknown as Prompter<Q, T>,
+      }
+    : {}),
+});
+
+/**
+ * hygen replaces the h argument with its helpers,
+ * so helpers of the render args are merged with helpers of .hygen.js
+ */
+const withArgumentHelpers = (
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   args: any,
   config: RunnerConfig,
-): Promise<unknown> => {
-  const options = {
-    ...defaultConfigs,
-    ...(await configResolver.resolve(process.cwd())),
+): RunnerConfig => {
+  const { helpers } = config;
+
+  return {
     ...config,
+    helpers: (locals: unknown, runnerConfig: RunnerConfig) => ({
+      ...args.h,
+      ...(typeof helpers === "function"
+        ? helpers(locals, runnerConfig)
+        : helpers),
+    }),
   };
+};
 
-  return execute(await render(args, options), args, options)
+export const renderTemplateActions = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: any,
+  config: RunnerConfig,
+): Promise<RenderedAction[]> => render(args, withArgumentHelpers(args, config));
+
+// results of add actions, other actions don't own their files
+type AddActionResult = {
+  type: string;
+  subject: string;
+  status: string;
 };
 
-export default renderTemplate;
\ No newline at end of file
+/**
+ * execute rendered actions, and return files added or skipped by add actions
+ */
+export const executeTemplateActions = async (
+  actions: RenderedAction[],
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: any,
+  config: RunnerConfig,
+): Promise<WrittenFile[]> => {
+  const results = (await execute(
+    actions,
+    args,
+    withArgumentHelpers(args, config),
+  )) as AddActionResult[];
+  const cwd = config.cwd ?? process.cwd();
+
+  return results
+    .filter(
+      (result) =>
+        result.type === "add" &&
+        (result.status === "added" || result.status === "skipped"),
+    )
+    .map((result) => ({
+      path: path.resolve(cwd, result.subject),
+      written: result.status === "added",
+    }));
+};
+
+// frontmatter attributes of hygen templates
+type TemplateAttributes = {
+  to?: string;
+  inject?: boolean;
+  sh?: string;
+  unless_exists?: boolean;
+  force?: boolean;
+  from?: string;
+  skip_if?: string;
+};
+
+/**
+ * render template files without writing them, used by dry-run and check modes.
+ * Inject and shell actions can't be previewed and are skipped
+ */
+export const renderTemplateFiles = async (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: any,
+  config: RunnerConfig,
+): Promise<OutputFile[]> => {
+  const cwd = config.cwd ?? process.cwd();
+  const { templates } = args as { templates?: string };
+  const actions = await renderTemplateActions(args, config);
+
+  return actions.reduce<OutputFile[]>((acc, action) => {
+    const { to, inject, sh, unless_exists, force, from, skip_if } =
+      action.attributes as TemplateAttributes;
+    if (sh) {
+      console.warn(`WARNING: shell action of ${action.file ?? ""} is skipped`);
+    }
+    if (inject) {
+      console.warn(`WARNING: inject action of ${action.file ?? ""} is skipped`);
+      return acc;
+    }
+    if (!to) {
+      return acc;
+    }
+
+    const filePath = path.resolve(cwd, to);
+    if (
+      skip_if === "true" ||
+      (!force && unless_exists === true && fs.existsSync(filePath))
+    ) {
+      return acc;
+    }
+
+    return [
+      ...acc,
+      {
+        path: filePath,
+        content: from
+          ? readFileSync(path.join(templates ?? "", from), "utf-8")
+          : action.body,
+      },
+    ];
+  }, []);
+};
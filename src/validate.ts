@@ -0,0 +1,118 @@
+export type ValueSchema =
+  | "string"
+  | "number"
+  | "boolean"
+  | "any"
+  | { enum: readonly string[] }
+  | { array: ValueSchema }
+  | { record: ValueSchema }
+  | { object: Record<string, ValueSchema> }
+  | { oneOf: ValueSchema[] }
+  | { nullable: ValueSchema };
+
+export type ValidationResult = {
+  // errors prefixed with the key path, e.g. hasura.maxDepth: expected number, got string
+  errors: string[];
+  // key paths which don't exist in the schema
+  unknownKeys: string[];
+};
+
+const VALID: ValidationResult = { errors: [], unknownKeys: [] };
+
+const typeOf = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeOf(value) === "object";
+
+const describeSchema = (schema: ValueSchema): string => {
+  if (typeof schema === "string") {
+    return schema;
+  }
+  if ("enum" in schema) {
+    return schema.enum.map((value) => `"${value}"`).join(" | ");
+  }
+  if ("array" in schema) {
+    return `${describeSchema(schema.array)}[]`;
+  }
+  if ("nullable" in schema) {
+    return `${describeSchema(schema.nullable)} | null`;
+  }
+  if ("oneOf" in schema) {
+    return schema.oneOf.map(describeSchema).join(" | ");
+  }
+  return "object";
+};
+
+const mergeResults = (results: ValidationResult[]): ValidationResult => ({
+  errors: results.flatMap((result) => result.errors),
+  unknownKeys: results.flatMap((result) => result.unknownKeys),
+});
+
+/**
+ * validate a value against the schema, and collect errors with their key paths
+ */
+export const validateValue = (
+  schema: ValueSchema,
+  value: unknown,
+  keyPath: string,
+): ValidationResult => {
+  const invalid: ValidationResult = {
+    errors: [
+      `${keyPath}: expected ${describeSchema(schema)}, got ${typeOf(value)}`,
+    ],
+    unknownKeys: [],
+  };
+
+  if (typeof schema === "string") {
+    return schema === "any" || typeOf(value) === schema ? VALID : invalid;
+  }
+  if ("enum" in schema) {
+    return schema.enum.includes(value as string) ? VALID : invalid;
+  }
+  if ("nullable" in schema) {
+    return value === null
+      ? VALID
+      : validateValue(schema.nullable, value, keyPath);
+  }
+  if ("oneOf" in schema) {
+    const results = schema.oneOf.map((option) =>
+      validateValue(option, value, keyPath),
+    );
+    // prefer nested errors of the option matching the value type
+    return (
+      results.find((result) => !result.errors.length) ??
+      results.find((result) =>
+        result.errors.every((error) => !error.startsWith(`${keyPath}:`)),
+      ) ??
+      invalid
+    );
+  }
+  if ("array" in schema) {
+    return Array.isArray(value)
+      ? mergeResults(
+          value.map((item, index) =>
+            validateValue(schema.array, item, `${keyPath}[${index}]`),
+          ),
+        )
+      : invalid;
+  }
+  if (!isPlainObject(value)) {
+    return invalid;
+  }
+  if ("record" in schema) {
+    return mergeResults(
+      Object.keys(value).map((key) =>
+        validateValue(schema.record, value[key], `${keyPath}.${key}`),
+      ),
+    );
+  }
+
+  return mergeResults(
+    Object.keys(value).map((key) =>
+      key in schema.object
+        ? validateValue(schema.object[key], value[key], `${keyPath}.${key}`)
+        : { errors: [], unknownKeys: [`${keyPath}.${key}`] },
+    ),
+  );
+};
@@ -0,0 +1,234 @@
+import path from "path";
+import {
+  DefinitionNode,
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLSchema,
+  Kind,
+  NoUnusedFragmentsRule,
+  parse,
+  specifiedRules,
+  validate,
+} from "graphql";
+import { group, unique } from "radash";
+import { hasDefinitions } from "./layout";
+import { OutputFile } from "./output";
+
+// fail, only warn or skip validation of generated documents
+export type DocumentValidation = "error" | "warn" | "off";
+
+export const DOCUMENT_VALIDATIONS: DocumentValidation[] = [
+  "error",
+  "warn",
+  "off",
+];
+
+export type DocumentProblem = {
+  // the file path relative to the working directory
+  path: string;
+  models: string[];
+  role: string | null;
+  // the operation or fragment name, null if the problem is about the whole file
+  definition: string | null;
+  message: string;
+};
+
+type ParsedFile = {
+  file: OutputFile;
+  // null if the file can't be parsed
+  document: DocumentNode | null;
+  problems: DocumentProblem[];
+};
+
+// fragments of other files are added to each document, so they may be unused
+const VALIDATION_RULES = specifiedRules.filter(
+  (rule) => rule !== NoUnusedFragmentsRule,
+);
+
+const getDefinitionName = (definition: DefinitionNode): string | null =>
+  (definition.kind === Kind.OPERATION_DEFINITION ||
+    definition.kind === Kind.FRAGMENT_DEFINITION) &&
+  definition.name
+    ? definition.name.value
+    : null;
+
+const toProblem = (
+  file: OutputFile,
+  definition: string | null,
+  message: string,
+): DocumentProblem => ({
+  path: path.relative(process.cwd(), file.path),
+  models: file.models ?? [],
+  role: file.role ?? null,
+  definition,
+  message,
+});
+
+const parseFile = (file: OutputFile): ParsedFile => {
+  try {
+    return { file, document: parse(file.content), problems: [] };
+  } catch (err) {
+    return {
+      file,
+      document: null,
+      problems: [toProblem(file, null, (err as Error).message)],
+    };
+  }
+};
+
+// find the operation or fragment of the document which the error is located in
+const findDefinitionName = (
+  document: DocumentNode,
+  error: GraphQLError,
+): string | null => {
+  const position = error.nodes?.[0]?.loc?.start ?? error.positions?.[0];
+  const definition =
+    position === undefined
+      ? undefined
+      : document.definitions.find(
+          ({ loc }) => loc && loc.start <= position && position <= loc.end,
+        );
+  return definition ? getDefinitionName(definition) : null;
+};
+
+const validateFile = (
+  { file, document, problems }: ParsedFile,
+  fragments: FragmentDefinitionNode[],
+  schema: GraphQLSchema,
+): DocumentProblem[] => {
+  if (!document) {
+    return problems;
+  }
+
+  const definitionNames = document.definitions.map(getDefinitionName);
+  const contextDocument: DocumentNode = {
+    ...document,
+    definitions: [
+      ...document.definitions,
+      ...fragments.filter(
+        (fragment) => !definitionNames.includes(fragment.name.value),
+      ),
+    ],
+  };
+
+  // errors of fragments of other files are reported with their own files
+  return validate(schema, contextDocument, VALIDATION_RULES)
+    .filter((error) => !error.source || error.source === document.loc?.source)
+    .map((error) =>
+      toProblem(file, findDefinitionName(document, error), error.message),
+    );
+};
+
+// operation and fragment names must be unique across files loaded together
+const findDuplicateNames = (parsedFiles: ParsedFile[]): DocumentProblem[] => {
+  const definitions = parsedFiles.flatMap(({ file, document }) =>
+    (document?.definitions ?? []).flatMap((definition) => {
+      const name = getDefinitionName(definition);
+      const kind =
+        definition.kind === Kind.FRAGMENT_DEFINITION ? "fragment" : "operation";
+      return name ? [{ file, name, kind }] : [];
+    }),
+  );
+  const definitionGroups = group(
+    definitions,
+    ({ name, kind }) => `${kind} ${name}`,
+  );
+
+  return Object.entries(definitionGroups).flatMap(([key, items = []]) => {
+    const files = unique(
+      items.map((item) => item.file),
+      (file) => file.path,
+    );
+    if (files.length < 2) {
+      return [];
+    }
+    return files.map((file) =>
+      toProblem(
+        file,
+        items[0].name,
+        `the ${key} is also defined in ${files
+          .filter((other) => other.path !== file.path)
+          .map((other) => path.relative(process.cwd(), other.path))
+          .join(", ")}`,
+      ),
+    );
+  });
+};
+
+// files without definitions, e.g. index files, aren't validated
+const parseFiles = (files: OutputFile[]): ParsedFile[] =>
+  files.filter((file) => hasDefinitions(file.content)).map(parseFile);
+
+/**
+ * check duplicate operation and fragment names across files,
+ * e.g. files of many roles written into the same folder
+ */
+export const findDuplicateDocumentNames = (
+  files: OutputFile[],
+): DocumentProblem[] => findDuplicateNames(parseFiles(files));
+
+/**
+ * validate generated documents of a role against its schema,
+ * and check duplicate operation and fragment names across files unless disabled.
+ * Fragments of other files are available to every document
+ */
+export const verifyDocuments = (
+  files: OutputFile[],
+  schema: GraphQLSchema,
+  checkDuplicates = true,
+): DocumentProblem[] => {
+  const parsedFiles = parseFiles(files);
+  const fragments = parsedFiles.flatMap(({ document }) =>
+    (document?.definitions ?? []).filter(
+      (definition): definition is FragmentDefinitionNode =>
+        definition.kind === Kind.FRAGMENT_DEFINITION,
+    ),
+  );
+
+  return [
+    ...parsedFiles.flatMap((parsedFile) =>
+      validateFile(parsedFile, fragments, schema),
+    ),
+    ...(checkDuplicates ? findDuplicateNames(parsedFiles) : []),
+  ];
+};
+
+/**
+ * print problems grouped by models and roles, and fail unless they're only warned
+ */
+export const reportDocumentProblems = (
+  problems: DocumentProblem[],
+  validation: DocumentValidation = "error",
+) => {
+  if (!problems.length || validation === "off") {
+    return;
+  }
+
+  const problemGroups = group(problems, (problem) =>
+    [problem.models.join(", ") || problem.path, problem.role]
+      .filter(Boolean)
+      .join(" of role "),
+  );
+  const message = `generated documents are invalid:\n${Object.entries(
+    problemGroups,
+  )
+    .map(
+      ([key, items = []]) =>
+        `  ${key}:\n${items
+          .map(
+            (problem) =>
+              `    ${problem.definition ?? problem.path}: ${problem.message}`,
+          )
+          .join("\n")}`,
+    )
+    .join("\n")}`;
+
+  if (validation === "warn") {
+    console.warn(`WARNING: ${message}`);
+    return;
+  }
+  throw new Error(
+    `${message}\nfix the generate options, or run with --validate-documents warn to write them anyway`,
+  );
+};
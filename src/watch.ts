@@ -0,0 +1,169 @@
+import { existsSync, watch as watchFile, FSWatcher } from "fs";
+import path from "path";
+import { printSchema } from "graphql";
+import { debounce, pick } from "radash";
+import generate, {
+  GenerateContext,
+  generateTemplates,
+  getErrorMessage,
+  loadRoleSchemas,
+  resolveModels,
+} from "./generate";
+import { Action, GenerateOptions, getRoles } from "./prompt";
+import { isRemoteSource } from "./loader";
+
+export type WatchOptions = {
+  configFile: string;
+  // re-read the config file and merge it into generate options
+  reloadOptions: (options: GenerateOptions) => GenerateOptions;
+};
+
+const WATCH_DELAY = 300;
+
+// options used to load the schema, the schema is reloaded when they change
+const SCHEMA_SOURCE_KEYS = [
+  "url",
+  "schema",
+  "role",
+  "roles",
+  "adminSecret",
+  "headers",
+  "method",
+] as const;
+
+const printSchemas = (context: GenerateContext): string =>
+  Object.keys(context.roleSchemas)
+    .map((role) => printSchema(context.roleSchemas[role]))
+    .join("\n");
+
+const isSameSchemaSource = (a: GenerateOptions, b: GenerateOptions): boolean =>
+  JSON.stringify(pick(a, [...SCHEMA_SOURCE_KEYS])) ===
+  JSON.stringify(pick(b, [...SCHEMA_SOURCE_KEYS]));
+
+const getLocalSchemaFiles = (options: GenerateOptions): string[] =>
+  options.schema && !isRemoteSource(options.schema)
+    ? getRoles(options).map((role) =>
+        path.resolve(options.schema!.split("{role}").join(role)),
+      )
+    : [];
+
+/**
+ * generate outputs, then keep the schema and answers in memory
+ * and regenerate affected outputs when templates, the config or the schema change
+ */
+const watch = async (
+  actions: Action[],
+  initialOptions: GenerateOptions,
+  watchOptions: WatchOptions,
+): Promise<void> => {
+  let options = initialOptions;
+  let context = await generate(actions, options);
+  let watchers: FSWatcher[] = [];
+  let schemaTimer: NodeJS.Timeout | undefined;
+
+  // run tasks one by one so outputs aren't written concurrently
+  let running = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    running = running.then(task).catch((err: unknown) => {
+      console.error("failed to generate: ", getErrorMessage(err));
+    });
+  };
+
+  const renderTemplates = () => {
+    enqueue(async () => {
+      console.log("\ntemplates changed, regenerating...");
+      await generateTemplates(context, options);
+      console.log("\nOutputs generated!");
+    });
+  };
+
+  const reloadSchemas = () => {
+    enqueue(async () => {
+      console.log("\nschema changed, regenerating...");
+      context = await generate(actions, options, {
+        ...context,
+        roleSchemas: await loadRoleSchemas(options),
+      });
+    });
+  };
+
+  const pollSchemas = () => {
+    enqueue(async () => {
+      const roleSchemas = await loadRoleSchemas(options);
+      const nextContext = { ...context, roleSchemas };
+      if (printSchemas(nextContext) === printSchemas(context)) {
+        return;
+      }
+      console.log("\nschema changed, regenerating...");
+      context = await generate(actions, options, nextContext);
+    });
+  };
+
+  const reloadConfig = () => {
+    enqueue(async () => {
+      console.log("\nconfig changed, regenerating...");
+      const nextOptions = watchOptions.reloadOptions(options);
+      const roleSchemas = isSameSchemaSource(options, nextOptions)
+        ? context.roleSchemas
+        : await loadRoleSchemas(nextOptions);
+      // keep models selected in the prompt if the config doesn't set them
+      const models = nextOptions.models.length
+        ? await resolveModels(roleSchemas, nextOptions)
+        : context.models;
+
+      options = { ...nextOptions, models };
+      context = await generate(actions, options, {
+        ...context,
+        roles: getRoles(options),
+        roleSchemas,
+        models,
+      });
+      startWatchers();
+    });
+  };
+
+  const startWatchers = () => {
+    watchers.forEach((watcher) => {
+      watcher.close();
+    });
+    clearInterval(schemaTimer);
+
+    const watchPath = (filePath: string, onChange: () => void) => {
+      if (!existsSync(filePath)) {
+        return;
+      }
+      watchers = [
+        ...watchers,
+        watchFile(
+          filePath,
+          { recursive: true },
+          debounce({ delay: WATCH_DELAY }, onChange),
+        ),
+      ];
+    };
+
+    watchers = [];
+    if (actions.includes("template")) {
+      // prompt.js lives in the template path too
+      watchPath(options.templatePath, renderTemplates);
+    }
+    watchPath(watchOptions.configFile, reloadConfig);
+
+    const schemaFiles = getLocalSchemaFiles(options);
+    schemaFiles.forEach((filePath) => {
+      watchPath(filePath, reloadSchemas);
+    });
+
+    if (!schemaFiles.length && options.watchSchemaInterval) {
+      schemaTimer = setInterval(
+        pollSchemas,
+        options.watchSchemaInterval * 1000,
+      );
+    }
+  };
+
+  startWatchers();
+  console.log("\nwatching for changes...");
+};
+
+export default watch;